@@ -9,13 +9,4 @@ export class AppController {
   getHello(): string {
     return this.appService.getHello();
   }
-
-  @Get("health")
-  getHealth() {
-    return {
-      status: "ok",
-      service: "jktech-processing-service",
-      timestamp: new Date().toISOString(),
-    };
-  }
 }
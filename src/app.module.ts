@@ -4,6 +4,8 @@ import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
 import { ProcessingModule } from "./processing/processing.module";
 import { HealthModule } from "./health/health.module";
+import { MetricsModule } from "./metrics/metrics.module";
+import { TracingModule } from "./tracing/tracing.module";
 
 @Module({
   imports: [
@@ -11,6 +13,8 @@ import { HealthModule } from "./health/health.module";
       isGlobal: true,
       envFilePath: ".env",
     }),
+    MetricsModule,
+    TracingModule,
     ProcessingModule,
     HealthModule,
   ],
@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Request } from "express";
+import { safeEqual } from "../utils/safe-equal";
+
+/**
+ * Protects operational endpoints with the `ADMIN_API_TOKEN` shared secret,
+ * sent as `Authorization: Bearer <token>` or `X-Admin-Token`. When no token
+ * is configured every request is rejected.
+ */
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  private readonly logger = new Logger(AdminTokenGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>("ADMIN_API_TOKEN");
+    if (!expected) {
+      this.logger.warn("ADMIN_API_TOKEN is not set; admin API is disabled");
+      throw new UnauthorizedException("Admin API is not configured");
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const authorization = request.headers.authorization ?? "";
+    const provided =
+      (request.headers["x-admin-token"] as string | undefined) ??
+      (authorization.startsWith("Bearer ") ? authorization.slice(7) : "");
+
+    if (!safeEqual(expected, provided)) {
+      throw new UnauthorizedException("Invalid admin token");
+    }
+
+    return true;
+  }
+}
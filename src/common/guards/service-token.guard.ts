@@ -0,0 +1,73 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  createParamDecorator,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Request } from "express";
+import { safeEqual } from "../utils/safe-equal";
+
+/** Header naming the user the backend calls on behalf of. */
+export const CALLER_ID_HEADER = "x-user-id";
+
+const logger = new Logger("ServiceTokenGuard");
+
+/**
+ * Checks `token` against `PROCESSING_API_TOKEN` and returns the caller's
+ * user id. Throws when no token is configured, the token does not match or
+ * no user id was given.
+ */
+export function authenticateCaller(
+  configService: ConfigService,
+  token: string | undefined,
+  userId: string | undefined
+): string {
+  const expected = configService.get<string>("PROCESSING_API_TOKEN");
+  if (!expected) {
+    logger.warn("PROCESSING_API_TOKEN is not set; processing API is disabled");
+    throw new UnauthorizedException("Processing API is not configured");
+  }
+  if (!safeEqual(expected, token ?? "")) {
+    throw new UnauthorizedException("Invalid service token");
+  }
+  if (!userId) {
+    throw new UnauthorizedException(`Missing ${CALLER_ID_HEADER} header`);
+  }
+  return userId;
+}
+
+/**
+ * Protects the processing API with the `PROCESSING_API_TOKEN` shared
+ * secret, sent as `Authorization: Bearer <token>` or `X-Service-Token`,
+ * together with `X-User-Id` naming the user the backend acts for. Routes
+ * read that user with `@CallerId()` and only touch the user's own jobs and
+ * documents.
+ */
+@Injectable()
+export class ServiceTokenGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { callerId?: string }>();
+    const authorization = request.headers.authorization ?? "";
+
+    request.callerId = authenticateCaller(
+      this.configService,
+      (request.headers["x-service-token"] as string | undefined) ??
+        (authorization.startsWith("Bearer ") ? authorization.slice(7) : ""),
+      request.headers[CALLER_ID_HEADER] as string | undefined
+    );
+    return true;
+  }
+}
+
+/** User id `ServiceTokenGuard` authenticated the request for. */
+export const CallerId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest().callerId
+);
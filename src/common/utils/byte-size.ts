@@ -0,0 +1,18 @@
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+};
+
+/** Parses sizes such as "100MB" or "1048576"; 0 means no limit. */
+export function parseByteSize(value: string | number): number {
+  const match = String(value)
+    .trim()
+    .toUpperCase()
+    .match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/);
+  if (!match) {
+    throw new Error(`Invalid size "${value}"`);
+  }
+  return Math.round(Number(match[1]) * SIZE_UNITS[match[2] ?? "B"]);
+}
@@ -0,0 +1,11 @@
+import { timingSafeEqual } from "crypto";
+
+/** Compares a provided secret with the expected one in constant time. */
+export function safeEqual(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return (
+    expectedBuffer.length === providedBuffer.length &&
+    timingSafeEqual(expectedBuffer, providedBuffer)
+  );
+}
@@ -1,10 +1,12 @@
-import { Controller, Get } from "@nestjs/common";
+import { Controller, Get, HttpStatus, Res } from "@nestjs/common";
+import { Response } from "express";
 import { HealthService } from "./health.service";
 
 @Controller("health")
 export class HealthController {
   constructor(private readonly healthService: HealthService) {}
 
+  /** Full report; always 200, with the outcome in `data.status`. */
   @Get()
   async getHealth() {
     const health = await this.healthService.getHealthStatus();
@@ -14,6 +16,28 @@ export class HealthController {
     };
   }
 
+  /** Liveness probe: the process responds. Never checks dependencies. */
+  @Get("live")
+  getLiveness() {
+    return {
+      success: true,
+      data: this.healthService.getLiveness(),
+    };
+  }
+
+  /** Readiness probe: 503 while unhealthy, 200 when healthy or degraded. */
+  @Get("ready")
+  async getReadiness(@Res({ passthrough: true }) res: Response) {
+    const health = await this.healthService.getHealthStatus();
+    if (health.status === "unhealthy") {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return {
+      success: health.status !== "unhealthy",
+      data: health,
+    };
+  }
+
   @Get("queue")
   async getQueueHealth() {
     const queueHealth = await this.healthService.getQueueHealth();
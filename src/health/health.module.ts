@@ -1,12 +1,25 @@
 import { Module } from "@nestjs/common";
+import { HttpModule } from "@nestjs/axios";
+import { ConfigModule } from "@nestjs/config";
 import { HealthController } from "./health.controller";
 import { HealthService } from "./health.service";
+import { WorkerHttpService } from "./worker-http.service";
 import { ProcessingModule } from "../processing/processing.module";
+import { RedisModule } from "../redis/redis.module";
+import { StorageModule } from "../storage/storage.module";
+import { SearchModule } from "../search/search.module";
 
 @Module({
-  imports: [ProcessingModule],
+  imports: [
+    HttpModule,
+    ConfigModule,
+    RedisModule,
+    StorageModule,
+    SearchModule,
+    ProcessingModule,
+  ],
   controllers: [HealthController],
-  providers: [HealthService],
+  providers: [HealthService, WorkerHttpService],
   exports: [HealthService],
 })
 export class HealthModule {}
@@ -1,72 +1,290 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { HttpService } from "@nestjs/axios";
+import { ConfigService } from "@nestjs/config";
+import { firstValueFrom } from "rxjs";
+import { setTimeout as delay } from "timers/promises";
+import Redis from "ioredis";
+import { REDIS_CLIENT } from "../redis/redis.constants";
 import { QueueConsumerService } from "../processing/services/queue-consumer.service";
+import { DeadLetterService } from "../processing/services/dead-letter.service";
+import { StorageService } from "../storage/storage.service";
+import { SearchIndexService } from "../search/search-index.service";
 
+const SERVICE_NAME = "jktech-processing-service";
+
+export type HealthStatus = "healthy" | "degraded" | "unhealthy";
+
+export interface DependencyCheck {
+  status: "up" | "degraded" | "down";
+  /** Time the probe took, in ms. */
+  latencyMs: number;
+  error?: string;
+}
+
+export interface StuckJob {
+  jobId: string;
+  documentId?: string;
+  activeForMs: number;
+}
+
+export interface QueueCheck extends DependencyCheck {
+  counts?: Record<
+    "waiting" | "active" | "completed" | "failed" | "delayed",
+    number
+  >;
+  deadLettered?: number;
+  /** Failed and dead-lettered jobs among the finished ones Bull still keeps. */
+  failedRatio?: number;
+  /** Waiting jobs per active job. */
+  waitingRatio?: number;
+  stuckJobs?: StuckJob[];
+  /** Why the queue is degraded. */
+  warnings?: string[];
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  service: string;
+  timestamp: string;
+  responseTime: number;
+  checks: {
+    redis: DependencyCheck;
+    queue: QueueCheck;
+    backend: DependencyCheck;
+    storage: DependencyCheck;
+    search: DependencyCheck;
+  };
+  uptime: number;
+  memory: NodeJS.MemoryUsage;
+  version: string;
+}
+
+/** Checks the service cannot work without; the others only degrade it. */
+const CRITICAL_CHECKS: (keyof HealthReport["checks"])[] = ["redis", "queue"];
+
+/**
+ * Liveness says whether the process itself still responds and never touches
+ * a dependency, so an orchestrator does not restart every instance when
+ * Redis goes away. Readiness probes each dependency with a
+ * `HEALTH_CHECK_TIMEOUT`: without Redis or the queue the service is
+ * unhealthy; an unreachable backend, storage or search cluster, a slow
+ * Redis, stuck jobs or a queue crossing the failed/waiting thresholds make
+ * it degraded.
+ */
 @Injectable()
 export class HealthService {
   private readonly logger = new Logger(HealthService.name);
 
-  constructor(private readonly queueConsumer: QueueConsumerService) {}
+  constructor(
+    private readonly queueConsumer: QueueConsumerService,
+    private readonly deadLetters: DeadLetterService,
+    private readonly storageService: StorageService,
+    private readonly searchIndex: SearchIndexService,
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {}
 
-  async getHealthStatus() {
+  getLiveness() {
+    return {
+      status: "ok",
+      service: SERVICE_NAME,
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+    };
+  }
+
+  async getHealthStatus(): Promise<HealthReport> {
     const startTime = Date.now();
+    const [redis, queue, backend, storage, search] = await Promise.all([
+      this.checkRedis(),
+      this.getQueueHealth(),
+      this.probe("backend", () => this.pingBackend()),
+      this.probe("storage", () =>
+        this.storageService.probe(
+          this.configService.get("HEALTH_STORAGE_PATH") || undefined
+        )
+      ),
+      this.probe("search", () => this.searchIndex.ping()),
+    ]);
+    const checks = { redis, queue, backend, storage, search };
 
-    try {
-      // Test queue connection
-      const queueStats = await this.queueConsumer.getQueueStats();
-      const queueStatus = "healthy";
+    const failing = Object.entries(checks).filter(
+      ([, check]) => check.status !== "up"
+    );
+    let status: HealthStatus = "healthy";
+    if (
+      failing.some(
+        ([name, check]) =>
+          check.status === "down" &&
+          CRITICAL_CHECKS.includes(name as keyof HealthReport["checks"])
+      )
+    ) {
+      status = "unhealthy";
+    } else if (failing.length) {
+      status = "degraded";
+    }
 
-      const responseTime = Date.now() - startTime;
+    return {
+      status,
+      service: SERVICE_NAME,
+      timestamp: new Date().toISOString(),
+      responseTime: Date.now() - startTime,
+      checks,
+      uptime: process.uptime(),
+      memory: process.memoryUsage(),
+      version: process.env.npm_package_version || "1.0.0",
+    };
+  }
 
-      return {
-        status: "healthy",
-        service: "jktech-processing-service",
-        timestamp: new Date().toISOString(),
-        responseTime,
-        services: {
-          queue: queueStatus,
-        },
-        queue: queueStats,
-        uptime: process.uptime(),
-        memory: process.memoryUsage(),
-        version: process.env.npm_package_version || "1.0.0",
-      };
+  async getQueueHealth(): Promise<QueueCheck> {
+    const startTime = Date.now();
+    let check: QueueCheck;
+    try {
+      check = await this.withTimeout(() => this.inspectQueue());
     } catch (error) {
-      this.logger.error("Health check failed:", error);
-
+      this.logger.warn(`Health check queue failed: ${error.message}`);
       return {
-        status: "unhealthy",
-        service: "jktech-processing-service",
-        timestamp: new Date().toISOString(),
-        responseTime: Date.now() - startTime,
+        status: "down",
+        latencyMs: Date.now() - startTime,
         error: error.message,
-        uptime: process.uptime(),
-        memory: process.memoryUsage(),
-        version: process.env.npm_package_version || "1.0.0",
       };
     }
+    return { ...check, latencyMs: Date.now() - startTime };
   }
 
-  async getQueueHealth() {
-    try {
-      const stats = await this.queueConsumer.getQueueStats();
-      const activeJobs = await this.queueConsumer.getActiveJobs();
-      const waitingJobs = await this.queueConsumer.getWaitingJobs();
+  private async inspectQueue(): Promise<QueueCheck> {
+    const [counts, deadLettered, activeJobs] = await Promise.all([
+      this.queueConsumer.getQueueStats(),
+      this.deadLetters.count(),
+      this.queueConsumer.getActiveJobs(),
+    ]);
+
+    const stuckAfter = Number(
+      this.configService.get(
+        "HEALTH_STUCK_JOB_AGE",
+        this.configService.get("PROCESSING_TIMEOUT", 300000)
+      )
+    );
+    const now = Date.now();
+    const stuckJobs: StuckJob[] = activeJobs
+      .filter((job) => job?.processedOn && now - job.processedOn > stuckAfter)
+      .map((job) => ({
+        jobId: String(job.id),
+        documentId: job.data?.documentId,
+        activeForMs: now - job.processedOn,
+      }));
+
+    const failed = counts.failed + deadLettered;
+    const finished = counts.completed + failed;
+    const failedRatio = finished ? failed / finished : 0;
+    const waitingRatio = counts.waiting / Math.max(counts.active, 1);
 
+    const maxFailedRatio = Number(
+      this.configService.get("HEALTH_MAX_FAILED_RATIO", 0.25)
+    );
+    const maxWaitingRatio = Number(
+      this.configService.get("HEALTH_MAX_WAITING_RATIO", 50)
+    );
+    const warnings: string[] = [];
+    if (stuckJobs.length) {
+      warnings.push(
+        `${stuckJobs.length} job(s) active for more than ${stuckAfter}ms`
+      );
+    }
+    if (failedRatio > maxFailedRatio) {
+      warnings.push(
+        `Failed ratio ${failedRatio.toFixed(2)} is above ${maxFailedRatio}`
+      );
+    }
+    if (waitingRatio > maxWaitingRatio) {
+      warnings.push(
+        `${counts.waiting} jobs waiting for ${counts.active} active, above the ratio of ${maxWaitingRatio}`
+      );
+    }
+
+    return {
+      status: warnings.length ? "degraded" : "up",
+      latencyMs: 0,
+      counts,
+      deadLettered,
+      failedRatio,
+      waitingRatio,
+      stuckJobs,
+      warnings,
+    };
+  }
+
+  private async checkRedis(): Promise<DependencyCheck> {
+    const check = await this.probe("redis", async () => {
+      await this.redis.ping();
+    });
+    const maxLatency = Number(
+      this.configService.get("HEALTH_REDIS_MAX_LATENCY", 100)
+    );
+    if (check.status === "up" && check.latencyMs > maxLatency) {
       return {
-        status: "healthy",
-        stats,
-        activeJobs: activeJobs.length,
-        waitingJobs: waitingJobs.length,
-        timestamp: new Date().toISOString(),
+        ...check,
+        status: "degraded",
+        error: `Latency above ${maxLatency}ms`,
       };
-    } catch (error) {
-      this.logger.error("Queue health check failed:", error);
+    }
+    return check;
+  }
+
+  /** Any answer below 500 means the backend is up, even a 404 or 405. */
+  private async pingBackend(): Promise<void> {
+    const backendUrl = this.configService.get(
+      "MAIN_BACKEND_URL",
+      "http://localhost:8080"
+    );
+    const apiPrefix = this.configService.get(
+      "MAIN_BACKEND_API_PREFIX",
+      "/api/v1"
+    );
+    await firstValueFrom(
+      this.httpService.head(`${backendUrl}${apiPrefix}/processing/callback`, {
+        validateStatus: (status) => status < 500,
+      })
+    );
+  }
 
+  private async probe(
+    name: string,
+    run: () => Promise<void>
+  ): Promise<DependencyCheck> {
+    const startTime = Date.now();
+    try {
+      await this.withTimeout(run);
+      return { status: "up", latencyMs: Date.now() - startTime };
+    } catch (error) {
+      this.logger.warn(`Health check ${name} failed: ${error.message}`);
       return {
-        status: "unhealthy",
+        status: "down",
+        latencyMs: Date.now() - startTime,
         error: error.message,
-        timestamp: new Date().toISOString(),
       };
     }
   }
+
+  private async withTimeout<T>(run: () => Promise<T>): Promise<T> {
+    const timeout = Number(
+      this.configService.get("HEALTH_CHECK_TIMEOUT", 3000)
+    );
+    const timer = new AbortController();
+    try {
+      return await Promise.race([
+        run(),
+        delay(timeout, undefined, { signal: timer.signal, ref: false }).then(
+          () => {
+            throw new Error(`No answer within ${timeout}ms`);
+          },
+          // Aborted once the probe answered
+          () => undefined as never
+        ),
+      ]);
+    } finally {
+      timer.abort();
+    }
+  }
 }
@@ -0,0 +1,115 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { HealthService } from "./health.service";
+import { MetricsService } from "../metrics/metrics.service";
+
+type RouteHandler = (res: ServerResponse) => Promise<void>;
+
+/**
+ * Serves the health endpoints and `/metrics` on `PORT` in
+ * `PROCESS_ROLE=worker` processes, which have no Nest HTTP server. Other
+ * roles serve them through `HealthController` and `MetricsController`.
+ * Responses match those controllers'; every other path is a 404.
+ */
+@Injectable()
+export class WorkerHttpService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(WorkerHttpService.name);
+  private readonly routes: Record<string, RouteHandler> = {
+    "/metrics": (res) => this.sendMetrics(res),
+    "/health": async (res) =>
+      this.sendJson(res, 200, {
+        success: true,
+        data: await this.healthService.getHealthStatus(),
+      }),
+    "/health/live": async (res) =>
+      this.sendJson(res, 200, {
+        success: true,
+        data: this.healthService.getLiveness(),
+      }),
+    "/health/ready": async (res) => {
+      const health = await this.healthService.getHealthStatus();
+      const ready = health.status !== "unhealthy";
+      this.sendJson(res, ready ? 200 : 503, { success: ready, data: health });
+    },
+    "/health/queue": async (res) =>
+      this.sendJson(res, 200, {
+        success: true,
+        data: await this.healthService.getQueueHealth(),
+      }),
+  };
+  private server?: Server;
+
+  constructor(
+    private readonly healthService: HealthService,
+    private readonly metricsService: MetricsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async onApplicationBootstrap() {
+    if (this.configService.get("PROCESS_ROLE") !== "worker") {
+      return;
+    }
+    const port = Number(this.configService.get("PORT", 8001));
+    const server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, () => resolve());
+    });
+    this.server = server;
+    this.logger.log(`Serving health and metrics on port ${port}`);
+  }
+
+  async onApplicationShutdown() {
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>((resolve) =>
+      server ? server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname.replace(
+      /\/+$/,
+      ""
+    );
+    const route = this.routes[path];
+    if (req.method !== "GET" || !route) {
+      this.sendJson(res, 404, {
+        success: false,
+        message: `Cannot ${req.method} ${path || "/"}`,
+      });
+      return;
+    }
+    try {
+      await route(res);
+    } catch (error) {
+      this.logger.error(`GET ${path} failed: ${error.message}`);
+      this.sendJson(res, 500, {
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  private async sendMetrics(res: ServerResponse) {
+    const body = await this.metricsService.metrics();
+    res.writeHead(200, {
+      "Content-Type": this.metricsService.contentType,
+      "Cache-Control": "no-store",
+    });
+    res.end(body);
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -1,10 +1,43 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { Logger, ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
+import { startTracing } from './tracing/tracing';
+
+// Extra time on top of SHUTDOWN_TIMEOUT for callbacks and connections to close
+const SHUTDOWN_MARGIN_MS = 10000;
+
+const logger = new Logger('Bootstrap');
+
+// Shutdown hooks talk to Redis; never hang forever when it is unreachable
+function exitIfShutdownHangs() {
+  const timeout = Number(process.env.SHUTDOWN_TIMEOUT || 30000) + SHUTDOWN_MARGIN_MS;
+  const forceExit = () => {
+    setTimeout(() => {
+      logger.error(`Shutdown did not finish within ${timeout}ms, exiting`);
+      process.exit(1);
+    }, timeout).unref();
+  };
+  process.once('SIGTERM', forceExit);
+  process.once('SIGINT', forceExit);
+}
 
 async function bootstrap() {
+  exitIfShutdownHangs();
+  startTracing();
+
+  // PROCESS_ROLE=worker consumes the queue without the HTTP API; only the
+  // health endpoints and /metrics are served, by WorkerHttpService
+  if (process.env.PROCESS_ROLE === 'worker') {
+    const worker = await NestFactory.createApplicationContext(AppModule);
+    // SIGTERM lets active jobs finish before the process exits
+    worker.enableShutdownHooks();
+    logger.log('🚀 Processing worker started');
+    return;
+  }
+
   const app = await NestFactory.create(AppModule);
-  
+  app.enableShutdownHooks();
+
   // Enable CORS for main API communication
   app.enableCors({
     origin: ['http://localhost:8080', 'http://localhost:3000'],
@@ -20,6 +53,6 @@ async function bootstrap() {
 
   const port = process.env.PORT || 8001;
   await app.listen(port);
-  console.log(`🚀 Processing Service running on port ${port}`);
+  logger.log(`🚀 Processing Service running on port ${port}`);
 }
 bootstrap();
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Controller, Get, Header, Res } from "@nestjs/common";
+import { Response } from "express";
+import { MetricsService } from "./metrics.service";
+
+@Controller("metrics")
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @Header("Cache-Control", "no-store")
+  async getMetrics(@Res() res: Response) {
+    res.setHeader("Content-Type", this.metricsService.contentType);
+    res.send(await this.metricsService.metrics());
+  }
+}
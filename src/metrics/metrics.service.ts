@@ -0,0 +1,221 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+const COLLECT_TIMEOUT_MS = 2000;
+
+/** `file_type` label values; any other file type is counted as "other". */
+const FILE_TYPE_LABELS = new Set([
+  "pdf",
+  "doc",
+  "docx",
+  "odt",
+  "rtf",
+  "txt",
+  "md",
+  "csv",
+  "html",
+  "jpg",
+  "png",
+  "tiff",
+  "bmp",
+]);
+
+/** Extensions and MIME types reported under another label value. */
+const FILE_TYPE_ALIASES: Record<string, string> = {
+  text: "txt",
+  log: "txt",
+  markdown: "md",
+  htm: "html",
+  xhtml: "html",
+  jpeg: "jpg",
+  tif: "tiff",
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/rtf": "rtf",
+  "text/plain": "txt",
+  "text/markdown": "md",
+  "text/csv": "csv",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/tiff": "tiff",
+  "image/bmp": "bmp",
+};
+
+export type QueueDepthCollector = () => Promise<Record<string, number>>;
+
+/**
+ * Prometheus metrics for the processing pipeline. Each service instance
+ * keeps its own registry; Prometheus aggregates across instances.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly registry = new Registry();
+  private queueDepthCollector?: QueueDepthCollector;
+
+  private readonly queueJobs = new Gauge({
+    name: "processing_queue_jobs",
+    help: "Jobs in the document processing queue by state",
+    labelNames: ["state"],
+    registers: [this.registry],
+    collect: async () => {
+      if (!this.queueDepthCollector) {
+        return;
+      }
+      try {
+        // Bull commands wait for Redis indefinitely; never hang a scrape
+        const counts = await Promise.race([
+          this.queueDepthCollector(),
+          new Promise<never>((_, reject) =>
+            setTimeout(
+              () => reject(new Error("timed out")),
+              COLLECT_TIMEOUT_MS
+            ).unref()
+          ),
+        ]);
+        for (const [state, count] of Object.entries(counts)) {
+          this.queueJobs.set({ state }, count);
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to collect queue depth: ${error.message}`);
+      }
+    },
+  });
+
+  private readonly stepDuration = new Histogram({
+    name: "processing_step_duration_seconds",
+    help: "Duration of pipeline steps, including retries",
+    labelNames: ["step", "status"],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+    registers: [this.registry],
+  });
+
+  private readonly jobsTotal = new Counter({
+    name: "processing_jobs_total",
+    help: "Finished processing jobs by file type and outcome",
+    labelNames: ["file_type", "outcome"],
+    registers: [this.registry],
+  });
+
+  private readonly callbackFailures = new Counter({
+    name: "processing_callback_delivery_failures_total",
+    help: "Failed callback delivery attempts to the main backend",
+    labelNames: ["path"],
+    registers: [this.registry],
+  });
+
+  private readonly bytesProcessed = new Counter({
+    name: "processing_bytes_processed_total",
+    help: "Bytes of document content read by extraction and OCR",
+    labelNames: ["stage", "file_type"],
+    registers: [this.registry],
+  });
+
+  private readonly stepCache = new Counter({
+    name: "processing_step_cache_lookups_total",
+    help: "Step output cache lookups by step and result (hit or miss)",
+    labelNames: ["step", "result"],
+    registers: [this.registry],
+  });
+
+  private readonly intakeRejections = new Counter({
+    name: "processing_intake_rejections_total",
+    help: "Files rejected by intake validation by reason code",
+    labelNames: ["reason"],
+    registers: [this.registry],
+  });
+
+  private readonly deadLetters = new Counter({
+    name: "processing_dead_letters_total",
+    help: "Jobs moved to the dead-letter queue by error code",
+    labelNames: ["reason"],
+    registers: [this.registry],
+  });
+
+  private readonly jobRetries = new Counter({
+    name: "processing_job_retries_total",
+    help: "Job attempts that failed transiently and were scheduled again",
+    labelNames: ["reason"],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  metrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  setQueueDepthCollector(collector: QueueDepthCollector): void {
+    this.queueDepthCollector = collector;
+  }
+
+  observeStepDuration(step: string, status: string, durationMs: number): void {
+    this.stepDuration.observe({ step, status }, durationMs / 1000);
+  }
+
+  recordStepCacheLookup(step: string, hit: boolean): void {
+    this.stepCache.inc({ step, result: hit ? "hit" : "miss" });
+  }
+
+  recordIntakeRejection(reason: string): void {
+    this.intakeRejections.inc({ reason });
+  }
+
+  recordDeadLetter(reason: string): void {
+    this.deadLetters.inc({ reason });
+  }
+
+  recordJobRetry(reason: string): void {
+    this.jobRetries.inc({ reason });
+  }
+
+  recordJobOutcome(fileType: string, outcome: string): void {
+    this.jobsTotal.inc({ file_type: this.normalize(fileType), outcome });
+  }
+
+  recordCallbackFailure(path: string): void {
+    this.callbackFailures.inc({ path });
+  }
+
+  recordBytesProcessed(
+    stage: "extraction" | "ocr",
+    fileType: string,
+    bytes: number
+  ): void {
+    this.bytesProcessed.inc(
+      { stage, file_type: this.normalize(fileType) },
+      bytes
+    );
+  }
+
+  /**
+   * Keeps label cardinality bounded: "PDF", ".pdf", "application/pdf" and
+   * "pdf" are the same, and file types the service does not know are
+   * "other" whatever the caller sent.
+   */
+  private normalize(fileType: string): string {
+    if (!fileType) {
+      return "unknown";
+    }
+    const normalized = fileType.toLowerCase().trim().replace(/^\./, "");
+    const label = FILE_TYPE_ALIASES[normalized] ?? normalized;
+    return FILE_TYPE_LABELS.has(label) ? label : "other";
+  }
+}
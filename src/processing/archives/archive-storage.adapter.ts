@@ -0,0 +1,141 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Readable } from "stream";
+import { StorageAdapter } from "../../storage/adapters/storage-adapter.interface";
+import { StorageService } from "../../storage/storage.service";
+import { StorageError, StorageErrorCode } from "../../storage/storage.errors";
+import { parseByteSize } from "../../common/utils/byte-size";
+import { IntakeError, IntakeErrorCode } from "../errors/processing.errors";
+import { ArchiveEntry, readArchiveEntries } from "./archive";
+
+const SCHEME = "archive";
+/** Member jobs of one batch tend to run close together. */
+const CACHE_SIZE = 2;
+const CACHE_TTL_MS = 60000;
+
+/**
+ * Storage path of a file inside an archive, e.g.
+ * `archive:s3%3A%2F%2Fbucket%2Fupload.zip#docs%2Freport.pdf`.
+ */
+export function archiveMemberPath(archivePath: string, name: string): string {
+  return `${SCHEME}:${encodeURIComponent(archivePath)}#${encodeURIComponent(name)}`;
+}
+
+/**
+ * Serves `archive:` storage paths, so the documents of an unpacked batch
+ * are read straight from the archive they were uploaded in. Registers
+ * itself with `StorageService`, which cannot depend on this module.
+ */
+@Injectable()
+export class ArchiveStorageAdapter implements StorageAdapter {
+  readonly schemes = [SCHEME];
+  private readonly cache = new Map<
+    string,
+    { entries: Promise<ArchiveEntry[]>; expiresAt: number }
+  >();
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService
+  ) {
+    storageService.register(this);
+  }
+
+  async createReadStream(location: URL): Promise<Readable> {
+    let archivePath: string;
+    let name: string;
+    try {
+      archivePath = decodeURIComponent(location.pathname);
+      name = decodeURIComponent(location.hash.slice(1));
+    } catch (error) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_PATH,
+        `Invalid archive member path ${location.href}`,
+        error
+      );
+    }
+    if (!archivePath || !name) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_PATH,
+        `Invalid archive member path ${location.href}`
+      );
+    }
+
+    const entry = (await this.listEntries(archivePath)).find(
+      (candidate) => candidate.name === name && !candidate.isDirectory
+    );
+    if (!entry) {
+      throw new StorageError(
+        StorageErrorCode.NOT_FOUND,
+        `${name} not found in archive ${archivePath}`
+      );
+    }
+    return Readable.from([entry.read()]);
+  }
+
+  /** Entries of the archive at `archivePath`; see `readArchiveEntries`. */
+  listEntries(archivePath: string): Promise<ArchiveEntry[]> {
+    const now = Date.now();
+    for (const [path, cached] of this.cache) {
+      if (cached.expiresAt <= now) {
+        this.cache.delete(path);
+      }
+    }
+
+    const cached = this.cache.get(archivePath);
+    if (cached) {
+      cached.expiresAt = now + CACHE_TTL_MS;
+      return cached.entries;
+    }
+
+    const entries = this.readArchive(archivePath).then((data) =>
+      readArchiveEntries(
+        data,
+        parseByteSize(this.configService.get("MAX_UNCOMPRESSED_SIZE", "500MB"))
+      )
+    );
+    // Failures are not cached; the next member job reads the archive again
+    entries.catch(() => this.cache.delete(archivePath));
+
+    this.cache.set(archivePath, { entries, expiresAt: now + CACHE_TTL_MS });
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+    return entries;
+  }
+
+  /** Reads the archive, giving up as soon as it exceeds `MAX_ARCHIVE_SIZE`. */
+  private async readArchive(archivePath: string): Promise<Buffer> {
+    const maxSize = parseByteSize(
+      this.configService.get("MAX_ARCHIVE_SIZE", "200MB")
+    );
+    const stream = await this.storageService.createReadStream(archivePath);
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    try {
+      for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += buffer.length;
+        if (maxSize && size > maxSize) {
+          stream.destroy();
+          throw new IntakeError(
+            IntakeErrorCode.ARCHIVE_TOO_LARGE,
+            `Archive ${archivePath} is larger than ${maxSize} bytes`
+          );
+        }
+        chunks.push(buffer);
+      }
+    } catch (error) {
+      if (error instanceof IntakeError) {
+        throw error;
+      }
+      throw new StorageError(
+        StorageErrorCode.UNAVAILABLE,
+        `Failed while reading ${archivePath}: ${error.message}`,
+        error
+      );
+    }
+    return Buffer.concat(chunks);
+  }
+}
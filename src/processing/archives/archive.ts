@@ -0,0 +1,102 @@
+import { gunzipSync } from "zlib";
+import { IntakeError, IntakeErrorCode } from "../errors/processing.errors";
+import { readZipEntries } from "./zip";
+import { isTarArchive, readTarEntries } from "./tar";
+
+const ZIP_MAGIC = Buffer.from("504b", "hex");
+const GZIP_MAGIC = Buffer.from("1f8b", "hex");
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+export interface ArchiveEntry {
+  /** Path inside the archive, with forward slashes. */
+  name: string;
+  /** Uncompressed size. */
+  size: number;
+  encrypted: boolean;
+  isDirectory: boolean;
+  read(): Buffer;
+}
+
+/** Format of an archive batch jobs can unpack, judged by its content. */
+export function detectArchiveFormat(data: Buffer): ArchiveFormat | undefined {
+  if (data.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) {
+    return "zip";
+  }
+  if (data.subarray(0, GZIP_MAGIC.length).equals(GZIP_MAGIC)) {
+    return "tar.gz";
+  }
+  return isTarArchive(data) ? "tar" : undefined;
+}
+
+/**
+ * Lists the entries of a ZIP, tar or gzipped tar archive. Throws an
+ * `IntakeError` when `data` is not such an archive, cannot be read, or
+ * expands to more than `maxSize` bytes (0 for no limit).
+ */
+export function readArchiveEntries(data: Buffer, maxSize = 0): ArchiveEntry[] {
+  const format = detectArchiveFormat(data);
+  if (!format) {
+    throw new IntakeError(
+      IntakeErrorCode.FILE_TYPE_MISMATCH,
+      "File is not a ZIP or tar archive"
+    );
+  }
+
+  let entries: ArchiveEntry[];
+  try {
+    entries =
+      format === "zip"
+        ? readZipEntries(data, maxSize)
+        : readTarEntries(format === "tar" ? data : gunzip(data, maxSize)).map(
+            (entry) => ({ ...entry, encrypted: false })
+          );
+  } catch (error) {
+    if (error instanceof IntakeError) {
+      throw error;
+    }
+    throw new IntakeError(
+      IntakeErrorCode.CORRUPT_FILE,
+      `Archive could not be read: ${error.message}`,
+      error
+    );
+  }
+
+  // Guards against archive bombs before any entry is inflated
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (maxSize && totalSize > maxSize) {
+    throw tooLarge(totalSize, maxSize);
+  }
+  return entries.map((entry) => ({
+    ...entry,
+    read: () => {
+      try {
+        return entry.read();
+      } catch (error) {
+        throw new IntakeError(
+          IntakeErrorCode.CORRUPT_FILE,
+          `Archive entry ${entry.name} could not be read: ${error.message}`,
+          error
+        );
+      }
+    },
+  }));
+}
+
+function gunzip(data: Buffer, maxSize: number): Buffer {
+  try {
+    return gunzipSync(data, maxSize ? { maxOutputLength: maxSize } : {});
+  } catch (error) {
+    if (error.code === "ERR_BUFFER_TOO_LARGE") {
+      throw tooLarge(undefined, maxSize);
+    }
+    throw error;
+  }
+}
+
+function tooLarge(size: number | undefined, maxSize: number): IntakeError {
+  return new IntakeError(
+    IntakeErrorCode.ARCHIVE_TOO_LARGE,
+    `Archive expands to ${size ?? "more than " + maxSize} bytes, the limit is ${maxSize}`
+  );
+}
@@ -0,0 +1,143 @@
+const BLOCK_SIZE = 512;
+const USTAR_MAGIC = "ustar";
+
+const TYPE_FILE = "0";
+/** Pre-POSIX archives mark regular files with a NUL type. */
+const TYPE_FILE_OLD = "\0";
+const TYPE_DIRECTORY = "5";
+/** GNU: the next entry's name is too long for the header. */
+const TYPE_GNU_LONG_NAME = "L";
+/** POSIX: extended attributes (`path` among them) for the next entry. */
+const TYPE_PAX_HEADER = "x";
+
+export interface TarEntry {
+  /** Path inside the archive, with forward slashes. */
+  name: string;
+  size: number;
+  isDirectory: boolean;
+  read(): Buffer;
+}
+
+/** Whether `data` starts with a POSIX (ustar) or GNU tar header. */
+export function isTarArchive(data: Buffer): boolean {
+  return (
+    data.length >= BLOCK_SIZE &&
+    data.subarray(257, 257 + USTAR_MAGIC.length).toString("latin1") ===
+      USTAR_MAGIC
+  );
+}
+
+/**
+ * Lists the regular files and directories of an uncompressed tar archive,
+ * with GNU long names and POSIX `path` attributes applied. Links and
+ * special files are left out. Throws when `data` is not a readable archive.
+ */
+export function readTarEntries(data: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks end the archive; one is enough to stop reading
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    if (!hasValidChecksum(header)) {
+      throw new Error(`Corrupt tar header at offset ${offset}`);
+    }
+
+    const size = readNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const start = offset + BLOCK_SIZE;
+    if (start + size > data.length) {
+      throw new Error(`Truncated tar archive at offset ${offset}`);
+    }
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === TYPE_GNU_LONG_NAME) {
+      longName = readString(data.subarray(start, start + size));
+      continue;
+    }
+    if (type === TYPE_PAX_HEADER) {
+      longName = readPaxPath(data.subarray(start, start + size)) ?? longName;
+      continue;
+    }
+
+    // `tar -C dir .` stores "./a.txt" and a "./" entry for the directory
+    const name = (longName ?? readHeaderName(header)).replace(/^(\.\/)+/, "");
+    longName = undefined;
+    if (
+      !name ||
+      (type !== TYPE_FILE && type !== TYPE_FILE_OLD && type !== TYPE_DIRECTORY)
+    ) {
+      continue;
+    }
+
+    entries.push({
+      name,
+      size,
+      isDirectory: type === TYPE_DIRECTORY || name.endsWith("/"),
+      read: () => data.subarray(start, start + size),
+    });
+  }
+
+  return entries;
+}
+
+function readHeaderName(header: Buffer): string {
+  const name = readString(header.subarray(0, 100));
+  const prefix = isTarArchive(header)
+    ? readString(header.subarray(345, 500))
+    : "";
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/** Octal, or base-256 (high bit set) for sizes beyond 8 GB. */
+function readNumber(header: Buffer, offset: number, length: number): number {
+  const field = header.subarray(offset, offset + length);
+  if (field[0] & 0x80) {
+    return field
+      .subarray(1)
+      .reduce((value, byte) => value * 256 + byte, field[0] & 0x7f);
+  }
+  const text = readString(field).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf8");
+}
+
+/** The checksum field counts as spaces in its own sum. */
+function hasValidChecksum(header: Buffer): boolean {
+  const expected = readNumber(header, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === expected;
+}
+
+/** Records look like "30 path=some/long/name\n", the length counting itself. */
+function readPaxPath(data: Buffer): string | undefined {
+  let offset = 0;
+  let path: string | undefined;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.subarray(offset, space).toString("latin1"));
+    if (space === -1 || !length) {
+      break;
+    }
+    const record = data
+      .subarray(space + 1, offset + length - 1)
+      .toString("utf8");
+    if (record.startsWith("path=")) {
+      path = record.slice("path=".length);
+    }
+    offset += length;
+  }
+  return path;
+}
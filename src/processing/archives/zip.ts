@@ -0,0 +1,178 @@
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** End of central directory record without its trailing comment. */
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes. */
+  name: string;
+  /** Uncompressed size as recorded in the archive. */
+  size: number;
+  compressedSize: number;
+  encrypted: boolean;
+  isDirectory: boolean;
+  /**
+   * Decompresses the entry; throws for encrypted or unsupported entries and
+   * for entries that do not inflate to their recorded size.
+   */
+  read(): Buffer;
+}
+
+/**
+ * Lists the entries of a ZIP archive (DOCX, XLSX and friends) from its
+ * central directory. Only stored and deflated entries can be read; ZIP64
+ * archives are not supported. Throws when `data` is not a readable archive.
+ *
+ * Recorded sizes can be forged, so reading an entry never inflates more
+ * than its recorded size, nor more than `maxEntrySize` (0 for no limit).
+ */
+export function readZipEntries(data: Buffer, maxEntrySize = 0): ZipEntry[] {
+  const end = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(end + 10);
+  const directoryOffset = data.readUInt32LE(end + 16);
+  if (directoryOffset === ZIP64_MARKER) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > data.length ||
+      data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localHeaderOffset = data.readUInt32LE(offset + 42);
+    const name = data
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString("utf8");
+    const encrypted = (flags & FLAG_ENCRYPTED) !== 0;
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      encrypted,
+      isDirectory: name.endsWith("/"),
+      read: () =>
+        readEntry(data, {
+          name,
+          method,
+          encrypted,
+          compressedSize,
+          size,
+          localHeaderOffset,
+          maxSize: maxEntrySize ? Math.min(size, maxEntrySize) : size,
+        }),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  const lowest = Math.max(0, data.length - END_RECORD_SIZE - MAX_COMMENT_SIZE);
+
+  for (let offset = data.length - END_RECORD_SIZE; offset >= lowest; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive (no end of central directory record)");
+}
+
+function readEntry(
+  data: Buffer,
+  entry: {
+    name: string;
+    method: number;
+    encrypted: boolean;
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+    maxSize: number;
+  }
+): Buffer {
+  if (entry.encrypted) {
+    throw new Error(`ZIP entry ${entry.name} is encrypted`);
+  }
+
+  const header = entry.localHeaderOffset;
+  if (
+    header + 30 > data.length ||
+    data.readUInt32LE(header) !== LOCAL_FILE_HEADER
+  ) {
+    throw new Error(`Corrupt ZIP entry ${entry.name}`);
+  }
+
+  // Local extra fields may differ from the central directory's
+  const start =
+    header +
+    30 +
+    data.readUInt16LE(header + 26) +
+    data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  let content: Buffer;
+  switch (entry.method) {
+    case METHOD_STORED:
+      content = compressed;
+      break;
+    case METHOD_DEFLATED:
+      content = inflate(entry.name, compressed, entry.maxSize);
+      break;
+    default:
+      throw new Error(
+        `ZIP entry ${entry.name} uses unsupported compression method ${entry.method}`
+      );
+  }
+
+  if (content.length > entry.maxSize) {
+    throw new Error(
+      `ZIP entry ${entry.name} is larger than the limit of ${entry.maxSize} bytes`
+    );
+  }
+  if (content.length !== entry.size) {
+    throw new Error(
+      `ZIP entry ${entry.name} has ${content.length} bytes, not the recorded ${entry.size}`
+    );
+  }
+  return content;
+}
+
+function inflate(name: string, compressed: Buffer, maxSize: number): Buffer {
+  try {
+    // maxOutputLength has to be at least 1; empty entries are checked after
+    return inflateRawSync(compressed, {
+      maxOutputLength: Math.max(maxSize, 1),
+    });
+  } catch (error) {
+    if (error.code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(
+        `ZIP entry ${name} inflates to more than ${maxSize} bytes`
+      );
+    }
+    throw error;
+  }
+}
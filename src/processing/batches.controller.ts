@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { BatchJobsService } from "./services/batch-jobs.service";
+import { CreateBatchJobDto } from "./dto/processing-job.dto";
+import {
+  CallerId,
+  ServiceTokenGuard,
+} from "../common/guards/service-token.guard";
+
+@Controller("processing/batches")
+@UseGuards(ServiceTokenGuard)
+export class BatchesController {
+  constructor(private readonly batchJobs: BatchJobsService) {}
+
+  @Post()
+  async submitBatch(
+    @Body() dto: CreateBatchJobDto,
+    @CallerId() callerId: string
+  ) {
+    if (dto.userId !== callerId) {
+      throw new ForbiddenException("userId must be the calling user");
+    }
+    const progress = await this.batchJobs.submit(dto);
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+
+  @Get(":batchId")
+  async getBatch(
+    @Param("batchId") batchId: string,
+    @CallerId() callerId: string
+  ) {
+    const progress = await this.batchJobs.getProgress(batchId, callerId);
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+}
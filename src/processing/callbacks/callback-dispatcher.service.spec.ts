@@ -0,0 +1,119 @@
+import { HttpService } from "@nestjs/axios";
+import { ConfigService } from "@nestjs/config";
+import RedisMock from "ioredis-mock";
+import { of } from "rxjs";
+import { MetricsService } from "../../metrics/metrics.service";
+import { ProcessingResult, ProcessingStatus } from "../dto/processing.dto";
+import { CallbackDispatcherService } from "./callback-dispatcher.service";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  signCallbackPayload,
+  verifyCallbackSignature,
+} from "./callback-signature";
+
+const SECRET = "test-secret";
+
+describe("callback signatures", () => {
+  it("verifies a payload signed with the same secret", () => {
+    const signature = signCallbackPayload(SECRET, "1700000000000", '{"a":1}');
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(
+      verifyCallbackSignature(SECRET, "1700000000000", '{"a":1}', signature)
+    ).toBe(true);
+  });
+
+  it("rejects a changed body, timestamp or secret", () => {
+    const signature = signCallbackPayload(SECRET, "1700000000000", '{"a":1}');
+
+    expect(
+      verifyCallbackSignature(SECRET, "1700000000000", '{"a":2}', signature)
+    ).toBe(false);
+    expect(
+      verifyCallbackSignature(SECRET, "1700000000001", '{"a":1}', signature)
+    ).toBe(false);
+    expect(
+      verifyCallbackSignature("other", "1700000000000", '{"a":1}', signature)
+    ).toBe(false);
+  });
+});
+
+describe("CallbackDispatcherService", () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let post: jest.Mock;
+  let dispatcher: CallbackDispatcherService;
+
+  const result: ProcessingResult = {
+    documentId: "doc-1",
+    success: true,
+    status: ProcessingStatus.COMPLETED,
+    processingTime: 10,
+  };
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    await redis.flushall();
+    post = jest.fn(() => of({ status: 200 }));
+    dispatcher = new CallbackDispatcherService(
+      { post } as unknown as HttpService,
+      new ConfigService({
+        CALLBACK_SIGNING_SECRET: SECRET,
+        MAIN_BACKEND_URL: "http://backend",
+        MAIN_BACKEND_API_PREFIX: "/api",
+      }),
+      redis as any,
+      { recordCallbackFailure: jest.fn() } as unknown as MetricsService
+    );
+  });
+
+  afterEach(() => redis.disconnect());
+
+  function sentHeaders(call: number): Record<string, string> {
+    return post.mock.calls[call][2].headers;
+  }
+
+  it("signs the body it sends", async () => {
+    await dispatcher.sendProcessingResult(result, "job-1", "run-a");
+
+    const [url, body] = post.mock.calls[0];
+    const headers = sentHeaders(0);
+    expect(url).toBe("http://backend/api/processing/callback");
+    expect(
+      verifyCallbackSignature(
+        SECRET,
+        headers[SIGNATURE_TIMESTAMP_HEADER],
+        body,
+        headers[SIGNATURE_HEADER]
+      )
+    ).toBe(true);
+  });
+
+  it("sends the same idempotency key for the same run", async () => {
+    await dispatcher.sendProcessingResult(result, "job-1", "run-a");
+    await dispatcher.sendProcessingResult(result, "job-1", "run-a");
+
+    expect(sentHeaders(0)[IDEMPOTENCY_KEY_HEADER]).toBe(
+      "processing:job-1:run-a:doc-1"
+    );
+    expect(sentHeaders(1)[IDEMPOTENCY_KEY_HEADER]).toBe(
+      sentHeaders(0)[IDEMPOTENCY_KEY_HEADER]
+    );
+  });
+
+  it("sends a new idempotency key for a retried job", async () => {
+    await dispatcher.sendProcessingResult(result, "job-1", "run-a");
+    await dispatcher.sendProcessingResult(result, "job-1", "run-b");
+
+    expect(sentHeaders(1)[IDEMPOTENCY_KEY_HEADER]).not.toBe(
+      sentHeaders(0)[IDEMPOTENCY_KEY_HEADER]
+    );
+  });
+
+  it("removes delivered callbacks from the outbox", async () => {
+    await dispatcher.sendProcessingResult(result, "job-1", "run-a");
+
+    expect(await dispatcher.getPendingCallbacks()).toEqual([]);
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  BeforeApplicationShutdown,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { HttpService } from "@nestjs/axios";
+import { ConfigService } from "@nestjs/config";
+import { firstValueFrom } from "rxjs";
+import { randomUUID } from "crypto";
+import Redis from "ioredis";
+import { SpanKind } from "@opentelemetry/api";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import {
+  TraceCarrier,
+  extractTraceContext,
+  injectTraceContext,
+  withSpan,
+} from "../../tracing/tracing";
+import { MetricsService } from "../../metrics/metrics.service";
+import { BatchProgress, ProcessingResult } from "../dto/processing.dto";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  signCallbackPayload,
+} from "./callback-signature";
+import { isTransientError } from "../errors/processing.errors";
+
+const OUTBOX_KEY = "processing:callbacks:outbox";
+const OUTBOX_SCHEDULE_KEY = "processing:callbacks:outbox:schedule";
+const DEAD_KEY = "processing:callbacks:dead";
+
+export interface CallbackEntry {
+  idempotencyKey: string;
+  /** Path below `MAIN_BACKEND_URL` + `MAIN_BACKEND_API_PREFIX`. */
+  path: string;
+  payload: Record<string, any>;
+  attempts: number;
+  createdAt: string;
+  lastError?: string;
+  /** Trace context of the job that sent it; retries join the same trace. */
+  trace?: TraceCarrier;
+}
+
+/**
+ * Single place that talks back to the main backend.
+ *
+ * Every callback is written to a Redis outbox before the first delivery
+ * attempt and only removed once the backend accepted it. Failed deliveries
+ * are retried from the outbox with exponential backoff; callbacks that run
+ * out of attempts, or that the backend refused with a 4xx, are moved to a
+ * dead set for inspection.
+ */
+@Injectable()
+export class CallbackDispatcherService
+  implements OnModuleInit, OnModuleDestroy, BeforeApplicationShutdown
+{
+  private readonly logger = new Logger(CallbackDispatcherService.name);
+  private flushTimer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly metrics: MetricsService
+  ) {}
+
+  async onModuleInit() {
+    if (!this.configService.get("CALLBACK_SIGNING_SECRET")) {
+      this.logger.warn(
+        "CALLBACK_SIGNING_SECRET is not set; callbacks will be sent unsigned"
+      );
+    }
+
+    await this.rescheduleOrphans();
+
+    const interval = Number(
+      this.configService.get("CALLBACK_OUTBOX_INTERVAL", 10000)
+    );
+    this.flushTimer = setInterval(() => void this.flushOutbox(), interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.flushTimer);
+  }
+
+  /**
+   * Last delivery attempt for due callbacks, once the queue consumer has
+   * stopped and before Redis disconnects. Whatever still fails stays in the
+   * outbox for the next process to pick up.
+   */
+  async beforeApplicationShutdown() {
+    await this.flushOutbox();
+  }
+
+  /**
+   * Reports a finished (or failed) processing job. The idempotency key is
+   * derived from the queue job and its run so redelivering the same outcome
+   * is safe, while a retried job reports under a new key.
+   */
+  async sendProcessingResult(
+    result: ProcessingResult,
+    jobId?: string | number,
+    runId?: string
+  ): Promise<void> {
+    const run = runId ? `${jobId}:${runId}` : jobId;
+    await this.dispatch(
+      "/processing/callback",
+      { documentId: result.documentId, result },
+      jobId !== undefined ? `processing:${run}:${result.documentId}` : undefined
+    );
+  }
+
+  /**
+   * Reports a batch whose documents have all finished, sent once per batch
+   * in addition to the callbacks of its documents.
+   */
+  async sendBatchResult(result: BatchProgress): Promise<void> {
+    await this.dispatch(
+      "/processing/batch-callback",
+      { batchId: result.batchId, result },
+      `batch:${result.batchId}`
+    );
+  }
+
+  async dispatch(
+    path: string,
+    payload: Record<string, any>,
+    idempotencyKey: string = randomUUID()
+  ): Promise<void> {
+    const entry: CallbackEntry = {
+      idempotencyKey,
+      path,
+      payload,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      trace: injectTraceContext(),
+    };
+
+    try {
+      await this.redis
+        .multi()
+        .hset(OUTBOX_KEY, idempotencyKey, JSON.stringify(entry))
+        .zadd(OUTBOX_SCHEDULE_KEY, Date.now(), idempotencyKey)
+        .exec();
+    } catch (error) {
+      // Still try to deliver; only the retry safety net is lost
+      this.logger.error(
+        `Failed to persist callback ${idempotencyKey} to outbox: ${error.message}`
+      );
+    }
+
+    if (await this.claim(idempotencyKey)) {
+      await this.attempt(entry);
+    }
+  }
+
+  /** Retries every outbox entry that is due. Safe to call concurrently. */
+  async flushOutbox(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushDue().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  async getPendingCallbacks(): Promise<CallbackEntry[]> {
+    const entries = await this.redis.hvals(OUTBOX_KEY);
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  async getDeadCallbacks(): Promise<CallbackEntry[]> {
+    const entries = await this.redis.hvals(DEAD_KEY);
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  private async flushDue(): Promise<void> {
+    try {
+      const due = await this.redis.zrangebyscore(
+        OUTBOX_SCHEDULE_KEY,
+        0,
+        Date.now(),
+        "LIMIT",
+        0,
+        100
+      );
+
+      for (const idempotencyKey of due) {
+        if (!(await this.claim(idempotencyKey))) {
+          continue;
+        }
+
+        const raw = await this.redis.hget(OUTBOX_KEY, idempotencyKey);
+        if (raw) {
+          await this.attempt(JSON.parse(raw));
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Callback outbox flush failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Removes the entry from the schedule so only one instance delivers it;
+   * it is put back if the delivery fails.
+   */
+  private async claim(idempotencyKey: string): Promise<boolean> {
+    try {
+      return (await this.redis.zrem(OUTBOX_SCHEDULE_KEY, idempotencyKey)) > 0;
+    } catch {
+      // Redis unavailable: deliver anyway, the backend dedupes on the key
+      return true;
+    }
+  }
+
+  private async attempt(entry: CallbackEntry): Promise<void> {
+    entry.attempts++;
+
+    try {
+      await this.deliver(entry);
+      await this.redis.hdel(OUTBOX_KEY, entry.idempotencyKey).catch(() => 0);
+      this.logger.log(
+        `Callback ${entry.path} delivered (key ${entry.idempotencyKey}, attempt ${entry.attempts})`
+      );
+    } catch (error) {
+      entry.lastError = error.message;
+      this.metrics.recordCallbackFailure(entry.path);
+      await this.scheduleRetry(entry, isTransientError(error));
+    }
+  }
+
+  /** Reschedules a failed delivery, or gives up on permanent failures (4xx). */
+  private async scheduleRetry(
+    entry: CallbackEntry,
+    transient: boolean
+  ): Promise<void> {
+    const maxAttempts = Number(
+      this.configService.get("CALLBACK_MAX_ATTEMPTS", 8)
+    );
+
+    try {
+      if (!transient || entry.attempts >= maxAttempts) {
+        await this.redis
+          .multi()
+          .hdel(OUTBOX_KEY, entry.idempotencyKey)
+          .hset(DEAD_KEY, entry.idempotencyKey, JSON.stringify(entry))
+          .exec();
+        this.logger.error(
+          `Giving up on callback ${entry.idempotencyKey} after ${entry.attempts} attempts: ${entry.lastError}`
+        );
+        return;
+      }
+
+      const baseDelay = Number(
+        this.configService.get("CALLBACK_RETRY_DELAY", 2000)
+      );
+      const maxDelay = Number(
+        this.configService.get("CALLBACK_MAX_RETRY_DELAY", 300000)
+      );
+      const nextAttemptAt =
+        Date.now() + Math.min(baseDelay * 2 ** (entry.attempts - 1), maxDelay);
+
+      await this.redis
+        .multi()
+        .hset(OUTBOX_KEY, entry.idempotencyKey, JSON.stringify(entry))
+        .zadd(OUTBOX_SCHEDULE_KEY, nextAttemptAt, entry.idempotencyKey)
+        .exec();
+
+      this.logger.warn(
+        `Callback ${entry.idempotencyKey} failed (attempt ${entry.attempts}/${maxAttempts}), retrying at ${new Date(nextAttemptAt).toISOString()}: ${entry.lastError}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Callback ${entry.idempotencyKey} failed and could not be rescheduled: ${error.message}`
+      );
+    }
+  }
+
+  private async deliver(entry: CallbackEntry): Promise<void> {
+    const backendUrl = this.configService.get(
+      "MAIN_BACKEND_URL",
+      "http://localhost:8080"
+    );
+    const apiPrefix = this.configService.get(
+      "MAIN_BACKEND_API_PREFIX",
+      "/api/v1"
+    );
+    const body = JSON.stringify(entry.payload);
+    const timestamp = Date.now().toString();
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      [IDEMPOTENCY_KEY_HEADER]: entry.idempotencyKey,
+    };
+
+    const secret = this.configService.get<string>("CALLBACK_SIGNING_SECRET");
+    if (secret) {
+      headers[SIGNATURE_TIMESTAMP_HEADER] = timestamp;
+      headers[SIGNATURE_HEADER] = signCallbackPayload(secret, timestamp, body);
+    }
+
+    // Legacy static token, only sent when explicitly configured
+    const serviceToken = this.configService.get<string>("SERVICE_TOKEN");
+    if (serviceToken) {
+      headers["X-Service-Token"] = serviceToken;
+    }
+
+    const url = `${backendUrl}${apiPrefix}${entry.path}`;
+    await withSpan(
+      "callback.deliver",
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.request.method": "POST",
+          "url.full": url,
+          "processing.callback.idempotency_key": entry.idempotencyKey,
+          "processing.callback.attempt": entry.attempts,
+        },
+      },
+      async (span) => {
+        const response = await firstValueFrom(
+          this.httpService.post(url, body, {
+            timeout: Number(this.configService.get("CALLBACK_TIMEOUT", 10000)),
+            // traceparent lets the backend continue the trace
+            headers: { ...headers, ...injectTraceContext() },
+          })
+        );
+        span.setAttribute("http.response.status_code", response.status);
+      },
+      extractTraceContext(entry.trace)
+    );
+  }
+
+  /** Puts back entries whose instance died between claim and delivery. */
+  private async rescheduleOrphans(): Promise<void> {
+    try {
+      const [keys, scheduled] = await Promise.all([
+        this.redis.hkeys(OUTBOX_KEY),
+        this.redis.zrange(OUTBOX_SCHEDULE_KEY, 0, -1),
+      ]);
+      const scheduledKeys = new Set(scheduled);
+      const orphans = keys.filter((key) => !scheduledKeys.has(key));
+
+      if (orphans.length > 0) {
+        await this.redis.zadd(
+          OUTBOX_SCHEDULE_KEY,
+          ...orphans.flatMap((key) => [Date.now(), key])
+        );
+        this.logger.log(`Rescheduled ${orphans.length} pending callbacks`);
+      }
+    } catch (error) {
+      this.logger.warn(`Unable to reconcile callback outbox: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const SIGNATURE_HEADER = "X-Signature";
+export const SIGNATURE_TIMESTAMP_HEADER = "X-Signature-Timestamp";
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<raw JSON body>`, hex encoded and prefixed
+ * with `sha256=`. The backend recomputes it with the shared secret.
+ */
+export function signCallbackPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+export function verifyCallbackSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signCallbackPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
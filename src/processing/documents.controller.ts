@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { SearchIndexService } from "../search/search-index.service";
+import { ResultStoreService } from "./results/result-store.service";
+import { ProcessingJobsService } from "./services/processing-jobs.service";
+import { ReprocessDocumentDto } from "./dto/processing-job.dto";
+import { StoredResult } from "./dto/processing.dto";
+import {
+  CallerId,
+  ServiceTokenGuard,
+} from "../common/guards/service-token.guard";
+
+/**
+ * Stored results and search entries of a document. Documents belong to the
+ * user of the job that processed them; other callers get a 404.
+ */
+@Controller("processing/documents")
+@UseGuards(ServiceTokenGuard)
+export class DocumentsController {
+  constructor(
+    private readonly resultStore: ResultStoreService,
+    private readonly processingJobs: ProcessingJobsService,
+    private readonly searchIndex: SearchIndexService
+  ) {}
+
+  @Get(":documentId/result")
+  async getLatestResult(
+    @Param("documentId") documentId: string,
+    @CallerId() callerId: string
+  ) {
+    const stored = await this.findOwnedResult(documentId, callerId);
+    return {
+      success: true,
+      data: stored,
+    };
+  }
+
+  @Get(":documentId/results")
+  async listResultVersions(
+    @Param("documentId") documentId: string,
+    @CallerId() callerId: string
+  ) {
+    await this.findOwnedResult(documentId, callerId);
+    const versions = await this.resultStore.listVersions(documentId);
+    return {
+      success: true,
+      data: versions,
+    };
+  }
+
+  @Get(":documentId/results/:version")
+  async getResultVersion(
+    @Param("documentId") documentId: string,
+    @Param("version", ParseIntPipe) version: number,
+    @CallerId() callerId: string
+  ) {
+    const stored = await this.resultStore.getVersion(documentId, version);
+    if (!stored || stored.job.userId !== callerId) {
+      throw new NotFoundException(
+        `Result version ${version} of document ${documentId} not found`
+      );
+    }
+    return {
+      success: true,
+      data: stored,
+    };
+  }
+
+  @Post(":documentId/reprocess")
+  async reprocess(
+    @Param("documentId") documentId: string,
+    @Body() dto: ReprocessDocumentDto,
+    @CallerId() callerId: string
+  ) {
+    const progress = await this.processingJobs.reprocess(
+      documentId,
+      dto.steps,
+      callerId
+    );
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+
+  /**
+   * Removes a document from search, e.g. after it was deleted upstream.
+   * Only the caller's passages are removed.
+   */
+  @Delete(":documentId/search-index")
+  async deleteFromSearchIndex(
+    @Param("documentId") documentId: string,
+    @CallerId() callerId: string
+  ) {
+    const deleted = await this.searchIndex.deleteDocument(documentId, callerId);
+    return {
+      success: true,
+      data: { documentId, deletedPassages: deleted },
+    };
+  }
+
+  private async findOwnedResult(
+    documentId: string,
+    callerId: string
+  ): Promise<StoredResult> {
+    const stored = await this.resultStore.getLatest(documentId);
+    if (!stored || stored.job.userId !== callerId) {
+      throw new NotFoundException(
+        `No stored result for document ${documentId}`
+      );
+    }
+    return stored;
+  }
+}
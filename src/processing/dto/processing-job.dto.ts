@@ -0,0 +1,222 @@
+import { Type } from "class-transformer";
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import {
+  BatchArchive,
+  BatchDocumentSource,
+  BatchProcessingJob,
+  DocumentMetadata,
+  DocumentProcessingJob,
+  EntityType,
+  ProcessingConfig,
+  ProcessingStatus,
+} from "./processing.dto";
+
+export class ProcessingConfigDto implements ProcessingConfig {
+  @IsBoolean()
+  extractText: boolean;
+
+  @IsBoolean()
+  performOCR: boolean;
+
+  @IsBoolean()
+  extractKeywords: boolean;
+
+  @IsBoolean()
+  generateSummary: boolean;
+
+  @IsBoolean()
+  detectLanguage: boolean;
+
+  @IsBoolean()
+  enableSearch: boolean;
+
+  @IsIn(["low", "normal", "high"])
+  priority: "low" | "normal" | "high";
+
+  @IsOptional()
+  @IsBoolean()
+  extractMetadata?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  detectPii?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  redactPii?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EntityType, { each: true })
+  piiTypes?: EntityType[];
+
+  @IsOptional()
+  @IsArray()
+  @Matches(/^[a-z_]+$/i, { each: true })
+  ocrLanguages?: string[];
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  summaryMethod?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  summarySentences?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  summaryRatio?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  steps?: string[];
+}
+
+export class CreateProcessingJobDto implements DocumentProcessingJob {
+  @IsString()
+  @IsNotEmpty()
+  documentId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fileName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fileType: string;
+
+  @IsInt()
+  @Min(0)
+  fileSize: number;
+
+  @IsString()
+  @IsNotEmpty()
+  storagePath: string;
+
+  @ValidateNested()
+  @Type(() => ProcessingConfigDto)
+  config: ProcessingConfigDto;
+
+  // Free-form: callers may attach any extra keys
+  @IsObject()
+  metadata: DocumentMetadata;
+}
+
+export class BatchArchiveDto implements BatchArchive {
+  @IsString()
+  @IsNotEmpty()
+  fileName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  storagePath: string;
+}
+
+export class BatchDocumentDto implements BatchDocumentSource {
+  @IsString()
+  @IsNotEmpty()
+  documentId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fileName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fileType: string;
+
+  @IsInt()
+  @Min(0)
+  fileSize: number;
+
+  @IsString()
+  @IsNotEmpty()
+  storagePath: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Partial<DocumentMetadata>;
+}
+
+/** Exactly one of `archive` and `documents`; checked by BatchJobsService. */
+export class CreateBatchJobDto implements BatchProcessingJob {
+  @IsString()
+  @IsNotEmpty()
+  batchId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BatchArchiveDto)
+  archive?: BatchArchiveDto;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => BatchDocumentDto)
+  documents?: BatchDocumentDto[];
+
+  @ValidateNested()
+  @Type(() => ProcessingConfigDto)
+  config: ProcessingConfigDto;
+
+  @IsObject()
+  metadata: DocumentMetadata;
+}
+
+export class ReprocessDocumentDto {
+  /** Steps to rerun; the other outputs are kept from the latest result. */
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  steps: string[];
+}
+
+export class ListProcessingJobsQueryDto {
+  @IsOptional()
+  @IsEnum(ProcessingStatus)
+  status?: ProcessingStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -1,3 +1,5 @@
+import { TraceCarrier } from "../../tracing/tracing";
+
 export interface ProcessingConfig {
   extractText: boolean;
   performOCR: boolean;
@@ -6,6 +8,24 @@ export interface ProcessingConfig {
   detectLanguage: boolean;
   enableSearch: boolean;
   priority: "low" | "normal" | "high";
+  /** Set to false to skip the extract-metadata step, which runs by default. */
+  extractMetadata?: boolean;
+  /** Detect personal data (emails, phone, PAN, Aadhaar, card numbers) in the text. */
+  detectPii?: boolean;
+  /** Mask detected personal data in the text before later steps and the callback see it; implies `detectPii`. */
+  redactPii?: boolean;
+  /** Entity types to look for; all of them by default. */
+  piiTypes?: EntityType[];
+  /** Tesseract language codes used for OCR, e.g. ["eng", "deu"]. */
+  ocrLanguages?: string[];
+  /** Summarizer to use, e.g. "extractive" or "llm"; defaults to SUMMARY_METHOD. */
+  summaryMethod?: string;
+  /** Summary length in sentences; takes precedence over `summaryRatio`. */
+  summarySentences?: number;
+  /** Summary length as a share of the document's sentences (0-1). */
+  summaryRatio?: number;
+  /** Additional registered steps to run by name, e.g. ones added by other modules. */
+  steps?: string[];
 }
 
 export interface DocumentProcessingJob {
@@ -17,6 +37,89 @@ export interface DocumentProcessingJob {
   storagePath: string;
   config: ProcessingConfig;
   metadata: DocumentMetadata;
+  /** Set on jobs that rerun some steps on top of a stored result. */
+  reprocess?: ReprocessRequest;
+  /** Set on the documents of a batch. */
+  batchId?: string;
+  /**
+   * New on every submission of the job id, admin retries included; keeps
+   * the callbacks of two runs of one job apart.
+   */
+  runId?: string;
+  /** Trace context of the span that enqueued the job. */
+  trace?: TraceCarrier;
+}
+
+export interface ReprocessRequest {
+  /** Stored result version the rerun steps start from. */
+  baseVersion: number;
+  steps: string[];
+}
+
+/**
+ * Several documents submitted together: either the files of an archive or
+ * files already in storage. Every document becomes its own processing job.
+ */
+export interface BatchProcessingJob {
+  batchId: string;
+  userId: string;
+  /** ZIP, tar or gzipped tar archive whose files are the documents. */
+  archive?: BatchArchive;
+  /** Files in storage, one document each. */
+  documents?: BatchDocumentSource[];
+  config: ProcessingConfig;
+  /** Shared by every document; a listed document's own keys take precedence. */
+  metadata: DocumentMetadata;
+}
+
+export interface BatchArchive {
+  fileName: string;
+  storagePath: string;
+}
+
+export interface BatchDocumentSource
+  extends Pick<
+    DocumentProcessingJob,
+    "documentId" | "fileName" | "fileType" | "fileSize" | "storagePath"
+  > {
+  metadata?: Partial<DocumentMetadata>;
+}
+
+/** A document of a batch and how far it got. */
+export interface BatchDocument {
+  documentId: string;
+  jobId: string;
+  fileName: string;
+  /** Path inside the archive, or the storage path of a listed document. */
+  source: string;
+  status: ProcessingStatus;
+  /** First error of a document that did not complete. */
+  error?: ProcessingError;
+}
+
+/** A file of the archive that was not turned into a document. */
+export interface SkippedBatchFile {
+  path: string;
+  reason: string;
+}
+
+/** Aggregate state of a batch; also the payload of the batch callback. */
+export interface BatchProgress {
+  batchId: string;
+  status: ProcessingStatus;
+  /** Mean progress of the documents, 0-100. */
+  progress: number;
+  /** Documents found so far; final once the batch has been unpacked. */
+  total: number;
+  counts: Record<ProcessingStatus, number>;
+  /** True when the batch finished with some, but not all, documents completed. */
+  partial?: boolean;
+  documents: BatchDocument[];
+  skipped: SkippedBatchFile[];
+  createdAt: Date;
+  completedAt?: Date;
+  /** Why unpacking the batch failed; documents found before still run. */
+  error?: ProcessingError;
 }
 
 export interface DocumentMetadata {
@@ -31,14 +134,203 @@ export interface DocumentMetadata {
 export interface ProcessingResult {
   documentId: string;
   success: boolean;
+  status?: ProcessingStatus;
+  /** Version under which the result store keeps this result. */
+  version?: number;
+  /** SHA-256 of the file contents, used to reuse cached step outputs. */
+  contentHash?: string;
   extractedText?: string;
   ocrText?: string;
+  ocrPages?: OcrPage[];
   keywords?: string[];
+  /** Keywords and key phrases with scores relative to the top one (1). */
+  scoredKeywords?: ScoredKeyword[];
+  /** Personal data found by the detect-pii step. */
+  entities?: DetectedEntity[];
   summary?: string;
+  /** ISO 639-1 code of the main language, or "unknown". */
   language?: string;
+  /** Languages of the document ranked by confidence. */
+  languages?: DetectedLanguage[];
+  /** Stretches of the text in one language, for mixed-language documents. */
+  languageSections?: LanguageSection[];
+  /**
+   * Step bookkeeping (e.g. `summaryMethod`) plus the file's intrinsic
+   * metadata, see `ExtractedMetadata`.
+   */
   metadata?: Record<string, any>;
   processingTime: number;
-  errors?: string[];
+  errors?: ProcessingError[];
+  /** True when some steps failed but others still produced output. */
+  partial?: boolean;
+  steps?: StepResult[];
+}
+
+/** A result as kept by the result store, with the job that produced it. */
+export interface StoredResult {
+  documentId: string;
+  version: number;
+  jobId?: string;
+  storedAt: Date;
+  job: DocumentProcessingJob;
+  result: ProcessingResult;
+}
+
+export interface StoredResultSummary {
+  version: number;
+  jobId?: string;
+  storedAt: Date;
+  status?: ProcessingStatus;
+  /** Steps that ran to produce this version. */
+  steps: string[];
+  reprocess?: ReprocessRequest;
+}
+
+export interface DetectedLanguage {
+  language: string;
+  /** 0-1 */
+  confidence: number;
+}
+
+export interface LanguageSection extends DetectedLanguage {
+  /** Character offsets into `extractedText` (or `ocrText` without it). */
+  start: number;
+  end: number;
+}
+
+export enum EntityType {
+  EMAIL = "EMAIL",
+  PHONE = "PHONE",
+  /** Indian Permanent Account Number. */
+  PAN = "PAN",
+  AADHAAR = "AADHAAR",
+  CARD_NUMBER = "CARD_NUMBER",
+}
+
+export interface DetectedEntity {
+  type: EntityType;
+  /** Matched text; masked like the text when the document was redacted. */
+  text: string;
+  /** Character offsets into the `source` field; masking keeps them valid. */
+  start: number;
+  end: number;
+  source: "extractedText" | "ocrText";
+}
+
+export interface ScoredKeyword {
+  keyword: string;
+  score: number;
+}
+
+export interface OcrPage {
+  page: number;
+  text: string;
+  /** Mean word confidence reported by the OCR engine, 0-1. */
+  confidence: number;
+}
+
+/**
+ * Intrinsic file metadata the extract-metadata step merges into
+ * `ProcessingResult.metadata`. Which fields can appear depends on the file
+ * type; fields the file does not carry are left out.
+ */
+export interface ExtractedMetadata
+  extends Partial<TextStatistics>,
+    DocumentProperties,
+    Partial<ImageProperties>,
+    Partial<TableProperties> {
+  /** MIME type the file was handled as. */
+  mimeType: string;
+}
+
+/** Any file with extracted or recognized text. */
+export interface TextStatistics {
+  wordCount: number;
+  characterCount: number;
+}
+
+/** PDF, DOCX, HTML and Markdown (front matter) files. */
+export interface DocumentProperties {
+  /** Title embedded in the file, not the one supplied with the job. */
+  title?: string;
+  author?: string;
+  subject?: string;
+  description?: string;
+  /** Keywords embedded in the file, not the extracted `keywords`. */
+  fileKeywords?: string[];
+  /** Language the file declares (HTML `lang`, DOCX `dc:language`). */
+  declaredLanguage?: string;
+  /** Application that created the file. */
+  creator?: string;
+  /** PDF producer, e.g. the library that wrote the file. */
+  producer?: string;
+  lastModifiedBy?: string;
+  /** ISO 8601 timestamps. */
+  createdAt?: string;
+  modifiedAt?: string;
+  /** Pages of a PDF or multi-page TIFF; DOCX as last saved by the editor. */
+  pageCount?: number;
+}
+
+/** JPEG, PNG, TIFF and BMP images. */
+export interface ImageProperties {
+  /** Pixel size of the (first) image. */
+  width: number;
+  height: number;
+  exif?: ExifMetadata;
+}
+
+/** EXIF tags of JPEG and TIFF images. */
+export interface ExifMetadata {
+  make?: string;
+  model?: string;
+  software?: string;
+  /** EXIF orientation, 1-8. */
+  orientation?: number;
+  /** When the photo was taken, as recorded by the camera (no time zone). */
+  takenAt?: string;
+  /** Seconds. */
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  /** Millimetres. */
+  focalLength?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** CSV files. */
+export interface TableProperties {
+  /** Data rows, excluding the header row. */
+  rowCount: number;
+  columnCount: number;
+  /** Header row. */
+  columns: string[];
+}
+
+export interface StepResult {
+  step: string;
+  status: StepStatus;
+  attempts: number;
+  durationMs: number;
+  startedAt: Date;
+  /** Outputs were reused from an identical file instead of computed. */
+  cached?: boolean;
+  error?: ProcessingError;
+}
+
+export enum StepStatus {
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+  TIMED_OUT = "TIMED_OUT",
+}
+
+export interface ProcessingError {
+  code: string;
+  message: string;
+  /** Whether another attempt may succeed; see the README on retries. */
+  transient?: boolean;
+  step?: string;
 }
 
 export interface ProcessingProgress {
@@ -53,6 +345,12 @@ export interface ProcessingProgress {
   error?: string;
 }
 
+/** Progress update published to SSE and WebSocket subscribers. */
+export interface ProgressEvent extends ProcessingProgress {
+  userId: string;
+  timestamp: Date;
+}
+
 export enum ProcessingStatus {
   PENDING = "PENDING",
   PROCESSING = "PROCESSING",
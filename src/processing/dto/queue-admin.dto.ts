@@ -0,0 +1,48 @@
+import { Type } from "class-transformer";
+import { IsIn, IsInt, IsOptional, Max, Min } from "class-validator";
+import { JobStatusClean } from "bull";
+
+export const CLEANABLE_JOB_STATUSES: JobStatusClean[] = [
+  "completed",
+  "wait",
+  "active",
+  "delayed",
+  "failed",
+  "paused",
+];
+
+export class CleanQueueDto {
+  /** Only jobs older than this many milliseconds are removed. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  grace?: number;
+
+  /** Defaults to both completed and failed jobs. */
+  @IsOptional()
+  @IsIn(CLEANABLE_JOB_STATUSES)
+  status?: JobStatusClean;
+
+  /** Maximum number of jobs to remove; 0 means no limit. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  limit?: number;
+}
+
+export class ListDeadLettersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
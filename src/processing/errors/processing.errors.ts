@@ -0,0 +1,184 @@
+import { ProcessingError } from "../dto/processing.dto";
+import { StorageErrorCode } from "../../storage/storage.errors";
+import { SearchErrorCode } from "../../search/search.errors";
+
+export enum ExtractionErrorCode {
+  UNSUPPORTED_FILE_TYPE = "UNSUPPORTED_FILE_TYPE",
+  EXTRACTION_FAILED = "EXTRACTION_FAILED",
+  OCR_LANGUAGE_UNAVAILABLE = "OCR_LANGUAGE_UNAVAILABLE",
+}
+
+export class ExtractionError extends Error {
+  constructor(
+    public readonly code: ExtractionErrorCode,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = ExtractionError.name;
+  }
+}
+
+/** Reasons the intake stage rejects a file before any step runs. */
+export enum IntakeErrorCode {
+  EMPTY_FILE = "EMPTY_FILE",
+  FILE_TOO_LARGE = "FILE_TOO_LARGE",
+  FILE_TYPE_MISMATCH = "FILE_TYPE_MISMATCH",
+  TOO_MANY_PAGES = "TOO_MANY_PAGES",
+  ENCRYPTED_FILE = "ENCRYPTED_FILE",
+  CORRUPT_FILE = "CORRUPT_FILE",
+  ARCHIVE_TOO_LARGE = "ARCHIVE_TOO_LARGE",
+  MALWARE_DETECTED = "MALWARE_DETECTED",
+  SCAN_FAILED = "SCAN_FAILED",
+  SCANNER_NOT_CONFIGURED = "SCANNER_NOT_CONFIGURED",
+}
+
+export class IntakeError extends Error {
+  constructor(
+    public readonly code: IntakeErrorCode,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = IntakeError.name;
+  }
+}
+
+export class StepTimeoutError extends Error {
+  readonly code = "STEP_TIMEOUT";
+
+  constructor(
+    public readonly step: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Step "${step}" timed out after ${timeoutMs}ms`);
+    this.name = StepTimeoutError.name;
+  }
+}
+
+export class JobCancelledError extends Error {
+  readonly code = "JOB_CANCELLED";
+
+  constructor(message = "Job was cancelled") {
+    super(message);
+    this.name = JobCancelledError.name;
+  }
+}
+
+/**
+ * The worker gave the job back to the queue on shutdown; whatever the
+ * pipeline got done is dropped, and nothing is stored or reported.
+ */
+export class JobRequeuedError extends Error {
+  readonly code = "JOB_REQUEUED";
+
+  constructor(message = "Job was requeued") {
+    super(message);
+    this.name = JobRequeuedError.name;
+  }
+}
+
+export class ResultNotFoundError extends Error {
+  readonly code = "RESULT_NOT_FOUND";
+
+  constructor(documentId: string, version: number) {
+    super(`Result version ${version} of document ${documentId} was not found`);
+    this.name = ResultNotFoundError.name;
+  }
+}
+
+export class BatchTooLargeError extends Error {
+  readonly code = "BATCH_TOO_LARGE";
+
+  constructor(count: number, limit: number) {
+    super(`Batch has ${count} documents, the limit is ${limit}`);
+    this.name = BatchTooLargeError.name;
+  }
+}
+
+/**
+ * Thrown to the queue when a job failed for a transient reason, so Bull
+ * schedules another attempt (or, after the last one, fails the job and it
+ * is dead-lettered). Carries the errors of the failed run.
+ */
+export class TransientJobError extends Error {
+  readonly code = "TRANSIENT_FAILURE";
+
+  constructor(public readonly errors: ProcessingError[]) {
+    super(
+      `Job failed with transient errors: ${errors
+        .filter((error) => error.transient)
+        .map((error) => error.code)
+        .join(", ")}`
+    );
+    this.name = TransientJobError.name;
+  }
+}
+
+/** Error codes for failures that may not happen again on a later attempt. */
+const TRANSIENT_CODES = new Set<string>([
+  StorageErrorCode.UNAVAILABLE,
+  SearchErrorCode.UNAVAILABLE,
+  IntakeErrorCode.SCAN_FAILED,
+  "STEP_TIMEOUT",
+  "TRANSIENT_FAILURE",
+  // Node.js network errors
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+/** ioredis errors raised while Redis is unreachable. */
+const TRANSIENT_ERROR_NAMES = new Set(["MaxRetriesPerRequestError"]);
+
+/** Deepest `cause` followed when classifying an error. */
+const MAX_CAUSE_DEPTH = 5;
+
+/**
+ * Whether retrying may help: timeouts, network and availability errors,
+ * and HTTP 408, 429 and 5xx responses anywhere in the `cause` chain. An
+ * HTTP status decides on its own, so a 404 wrapped in a storage error is
+ * permanent. Everything else (unsupported or corrupt files, missing
+ * results, bugs) is permanent.
+ */
+export function isTransientError(error: any): boolean {
+  const chain: any[] = [];
+  for (
+    let current = error;
+    current && chain.length < MAX_CAUSE_DEPTH;
+    current = current.cause
+  ) {
+    chain.push(current);
+  }
+
+  const status = chain
+    .map((current) => current.response?.status)
+    .find((value) => typeof value === "number");
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return chain.some(
+    (current) =>
+      TRANSIENT_CODES.has(current.code) ||
+      TRANSIENT_ERROR_NAMES.has(current.name)
+  );
+}
+
+/**
+ * Converts anything thrown inside the pipeline into the structured error
+ * shape reported in `ProcessingResult.errors`.
+ */
+export function toProcessingError(error: any, step?: string): ProcessingError {
+  return {
+    code: typeof error?.code === "string" ? error.code : "INTERNAL_ERROR",
+    message: error?.message ?? String(error),
+    transient: isTransientError(error),
+    ...(step ? { step } : {}),
+  };
+}
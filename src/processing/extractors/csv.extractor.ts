@@ -0,0 +1,70 @@
+import { Injectable } from "@nestjs/common";
+import { ExtractedContent, TextExtractor } from "./text-extractor.interface";
+import { decodeText } from "./plain-text.extractor";
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain separators,
+ * escaped quotes ("") and line breaks.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+@Injectable()
+export class CsvExtractor implements TextExtractor {
+  readonly name = "csv";
+  readonly mimeTypes = ["text/csv"];
+
+  async extract(data: Buffer): Promise<ExtractedContent> {
+    const rows = parseCsv(decodeText(data));
+    const text = rows
+      .map((cells) => cells.filter((cell) => cell.length > 0).join(" "))
+      .filter((line) => line.length > 0)
+      .join("\n");
+
+    return { text };
+  }
+}
@@ -0,0 +1,16 @@
+import { Injectable } from "@nestjs/common";
+import * as mammoth from "mammoth";
+import { ExtractedContent, TextExtractor } from "./text-extractor.interface";
+
+@Injectable()
+export class DocxExtractor implements TextExtractor {
+  readonly name = "docx";
+  readonly mimeTypes = [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ];
+
+  async extract(data: Buffer): Promise<ExtractedContent> {
+    const result = await mammoth.extractRawText({ buffer: data });
+    return { text: result.value.replace(/\n{3,}/g, "\n\n").trim() };
+  }
+}
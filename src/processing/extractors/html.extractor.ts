@@ -0,0 +1,65 @@
+import { Injectable } from "@nestjs/common";
+import { ExtractedContent, TextExtractor } from "./text-extractor.interface";
+import { decodeText } from "./plain-text.extractor";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+};
+
+/** Decodes numeric and common named character references in HTML or XML. */
+export function decodeEntities(html: string): string {
+  return html.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const codePoint =
+          entity[1].toLowerCase() === "x"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return Number.isFinite(codePoint) && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+  );
+}
+
+const BLOCK_TAGS =
+  "address|article|aside|blockquote|br|dd|div|dl|dt|fieldset|figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tr|ul";
+
+@Injectable()
+export class HtmlExtractor implements TextExtractor {
+  readonly name = "html";
+  readonly mimeTypes = ["text/html", "application/xhtml+xml"];
+
+  async extract(data: Buffer): Promise<ExtractedContent> {
+    const text = decodeEntities(
+      decodeText(data)
+        .replace(/<!--[\s\S]*?-->/g, "")
+        .replace(
+          /<(script|style|noscript|template|head)[\s\S]*?<\/\1\s*>/gi,
+          ""
+        )
+        .replace(new RegExp(`<\\/?(${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+        .replace(/<(td|th)\b[^>]*>/gi, " ")
+        .replace(/<[^>]+>/g, "")
+    )
+      .replace(/[ \t\f\v ]+/g, " ")
+      .replace(/ *\n */g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    return { text };
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable } from "@nestjs/common";
+import { ExtractedContent, TextExtractor } from "./text-extractor.interface";
+import { decodeText } from "./plain-text.extractor";
+
+@Injectable()
+export class MarkdownExtractor implements TextExtractor {
+  readonly name = "markdown";
+  readonly mimeTypes = ["text/markdown", "text/x-markdown"];
+
+  async extract(data: Buffer): Promise<ExtractedContent> {
+    const text = decodeText(data)
+      .replace(/\r\n?/g, "\n")
+      // Fenced code blocks keep their content, only the fences go
+      .replace(/^\s*(```|~~~).*$/gm, "")
+      // Images and links keep their visible text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      // Headings, block quotes and list markers
+      .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+      .replace(/^\s{0,3}>\s?/gm, "")
+      .replace(/^\s*([-*+]|\d+\.)\s+/gm, "")
+      // Horizontal rules
+      .replace(/^\s*([-*_]\s*){3,}$/gm, "")
+      // Emphasis and inline code. Underscores only count at word
+      // boundaries, so snake_case identifiers survive.
+      .replace(/\*\*(.*?)\*\*/g, "$1")
+      .replace(/\b__(.+?)__\b/g, "$1")
+      .replace(/\*(.*?)\*/g, "$1")
+      .replace(/\b_(.+?)_\b/g, "$1")
+      .replace(/`([^`]*)`/g, "$1")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    return { text };
+  }
+}
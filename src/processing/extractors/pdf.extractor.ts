@@ -0,0 +1,23 @@
+import { Injectable } from "@nestjs/common";
+import { PDFParse } from "pdf-parse";
+import { ExtractedContent, TextExtractor } from "./text-extractor.interface";
+
+@Injectable()
+export class PdfExtractor implements TextExtractor {
+  readonly name = "pdf";
+  readonly mimeTypes = ["application/pdf"];
+
+  async extract(data: Buffer): Promise<ExtractedContent> {
+    const parser = new PDFParse({ data });
+
+    try {
+      const result = await parser.getText();
+      return {
+        text: result.text.trim(),
+        pageCount: result.total,
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+}
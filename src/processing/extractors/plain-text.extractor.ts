@@ -0,0 +1,18 @@
+import { Injectable } from "@nestjs/common";
+import { ExtractedContent, TextExtractor } from "./text-extractor.interface";
+
+export function decodeText(data: Buffer): string {
+  // Strip the UTF-8 byte order mark some editors prepend
+  const text = data.toString("utf8");
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+@Injectable()
+export class PlainTextExtractor implements TextExtractor {
+  readonly name = "plain-text";
+  readonly mimeTypes = ["text/plain"];
+
+  async extract(data: Buffer): Promise<ExtractedContent> {
+    return { text: decodeText(data).replace(/\r\n?/g, "\n").trim() };
+  }
+}
@@ -0,0 +1,14 @@
+import { DocumentProcessingJob } from "../dto/processing.dto";
+
+export interface ExtractedContent {
+  text: string;
+  pageCount?: number;
+}
+
+export interface TextExtractor {
+  /** Human readable name, used in logs and error messages. */
+  readonly name: string;
+  /** MIME types this extractor is able to handle. */
+  readonly mimeTypes: string[];
+  extract(data: Buffer, job: DocumentProcessingJob): Promise<ExtractedContent>;
+}
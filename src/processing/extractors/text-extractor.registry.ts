@@ -0,0 +1,104 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { extname } from "path";
+import { TextExtractor } from "./text-extractor.interface";
+import { PlainTextExtractor } from "./plain-text.extractor";
+import { MarkdownExtractor } from "./markdown.extractor";
+import { CsvExtractor } from "./csv.extractor";
+import { HtmlExtractor } from "./html.extractor";
+import { PdfExtractor } from "./pdf.extractor";
+import { DocxExtractor } from "./docx.extractor";
+
+/**
+ * File extensions (as sent in `DocumentProcessingJob.fileType`) mapped to
+ * the MIME type extractors register for.
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  text: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  htm: "text/html",
+  html: "text/html",
+  xhtml: "application/xhtml+xml",
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  doc: "application/msword",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  bmp: "image/bmp",
+};
+
+@Injectable()
+export class TextExtractorRegistry {
+  private readonly logger = new Logger(TextExtractorRegistry.name);
+  private readonly extractors = new Map<string, TextExtractor>();
+
+  constructor(
+    plainTextExtractor: PlainTextExtractor,
+    markdownExtractor: MarkdownExtractor,
+    csvExtractor: CsvExtractor,
+    htmlExtractor: HtmlExtractor,
+    pdfExtractor: PdfExtractor,
+    docxExtractor: DocxExtractor
+  ) {
+    [
+      plainTextExtractor,
+      markdownExtractor,
+      csvExtractor,
+      htmlExtractor,
+      pdfExtractor,
+      docxExtractor,
+    ].forEach((extractor) => this.register(extractor));
+  }
+
+  /**
+   * Registers an extractor for every MIME type it declares. A later
+   * registration for the same MIME type replaces the earlier one, so other
+   * modules can override the built-in extractors.
+   */
+  register(extractor: TextExtractor): void {
+    for (const declared of extractor.mimeTypes) {
+      const mimeType = declared.toLowerCase();
+      const existing = this.extractors.get(mimeType);
+      if (existing && existing !== extractor) {
+        this.logger.log(
+          `Extractor "${extractor.name}" replaces "${existing.name}" for ${mimeType}`
+        );
+      }
+      this.extractors.set(mimeType, extractor);
+    }
+  }
+
+  /**
+   * Resolves the MIME type for a job from its `fileType` (either a MIME
+   * type or an extension), falling back to the file name extension.
+   */
+  resolveMimeType(fileType: string, fileName?: string): string | undefined {
+    const normalized = (fileType || "").toLowerCase().trim().replace(/^\./, "");
+    if (normalized.includes("/")) {
+      return normalized;
+    }
+
+    return (
+      EXTENSION_MIME_TYPES[normalized] ??
+      EXTENSION_MIME_TYPES[
+        extname(fileName || "")
+          .slice(1)
+          .toLowerCase()
+      ]
+    );
+  }
+
+  getExtractor(mimeType: string): TextExtractor | undefined {
+    return this.extractors.get(mimeType.toLowerCase());
+  }
+
+  getSupportedMimeTypes(): string[] {
+    return [...this.extractors.keys()];
+  }
+}
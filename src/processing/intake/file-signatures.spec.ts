@@ -0,0 +1,104 @@
+import {
+  OLE_MIME_TYPE,
+  TEXT_MIME_TYPE,
+  ZIP_MIME_TYPE,
+  isCompatibleType,
+  sniffMimeType,
+} from "./file-signatures";
+
+function bmp(dibHeaderSize = 40, size = 70): Buffer {
+  const data = Buffer.alloc(size);
+  data.write("BM", "latin1");
+  data.writeUInt32LE(size, 2);
+  data.writeUInt32LE(dibHeaderSize, 14);
+  return data;
+}
+
+describe("sniffMimeType", () => {
+  it("recognizes binary formats by their magic bytes", () => {
+    expect(sniffMimeType(Buffer.from("89504e470d0a1a0a0000", "hex"))).toBe(
+      "image/png"
+    );
+    expect(sniffMimeType(Buffer.from("ffd8ffe000104a464946", "hex"))).toBe(
+      "image/jpeg"
+    );
+    expect(sniffMimeType(Buffer.from("GIF89a\x01\x00", "latin1"))).toBe(
+      "image/gif"
+    );
+    expect(sniffMimeType(Buffer.from("49492a0008000000", "hex"))).toBe(
+      "image/tiff"
+    );
+    expect(sniffMimeType(Buffer.from("504b030414000000", "hex"))).toBe(
+      ZIP_MIME_TYPE
+    );
+    expect(sniffMimeType(Buffer.from("d0cf11e0a1b11ae1", "hex"))).toBe(
+      OLE_MIME_TYPE
+    );
+  });
+
+  it("only takes a file starting with BM for a bitmap when its header is valid", () => {
+    expect(sniffMimeType(bmp())).toBe("image/bmp");
+    expect(sniffMimeType(bmp(124))).toBe("image/bmp");
+    expect(sniffMimeType(bmp(41))).toBeUndefined();
+    // File size field does not match the data
+    expect(sniffMimeType(bmp(40, 70).subarray(0, 60))).toBeUndefined();
+  });
+
+  it("reads text starting with a magic number as text", () => {
+    expect(sniffMimeType(Buffer.from("BMW annual report 2024\n"))).toBe(
+      TEXT_MIME_TYPE
+    );
+    expect(sniffMimeType(Buffer.from("GIF8 is not a version\n"))).toBe(
+      TEXT_MIME_TYPE
+    );
+  });
+
+  it("keeps declared text as text when it reads as text", () => {
+    const rtf = Buffer.from("{\\rtf1\\ansi Hello}");
+    expect(sniffMimeType(rtf)).toBe("application/rtf");
+    expect(sniffMimeType(rtf, "text/plain")).toBe(TEXT_MIME_TYPE);
+    expect(sniffMimeType(rtf, "application/rtf")).toBe("application/rtf");
+  });
+
+  it("finds a PDF header at the start or behind binary junk", () => {
+    expect(sniffMimeType(Buffer.from("%PDF-1.7\n%\xe2\xe3"))).toBe(
+      "application/pdf"
+    );
+    const junk = Buffer.concat([
+      Buffer.from([0x00, 0x01, 0x02, 0xff]),
+      Buffer.from("%PDF-1.4\n"),
+    ]);
+    expect(sniffMimeType(junk)).toBe("application/pdf");
+  });
+
+  it("does not take text mentioning a PDF header for a PDF", () => {
+    expect(
+      sniffMimeType(Buffer.from("Files start with %PDF-1.7 followed by"))
+    ).toBe(TEXT_MIME_TYPE);
+  });
+
+  it("returns undefined for unrecognized binary content", () => {
+    expect(
+      sniffMimeType(Buffer.from([0x00, 0x01, 0x02, 0x03]))
+    ).toBeUndefined();
+  });
+});
+
+describe("isCompatibleType", () => {
+  it("accepts ZIP and OLE containers for the formats built on them", () => {
+    expect(
+      isCompatibleType(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        ZIP_MIME_TYPE
+      )
+    ).toBe(true);
+    expect(isCompatibleType("application/msword", OLE_MIME_TYPE)).toBe(true);
+    expect(isCompatibleType("application/pdf", ZIP_MIME_TYPE)).toBe(false);
+  });
+
+  it("accepts text for text types", () => {
+    expect(isCompatibleType("text/csv", TEXT_MIME_TYPE)).toBe(true);
+    expect(isCompatibleType("application/json", TEXT_MIME_TYPE)).toBe(true);
+    expect(isCompatibleType("image/png", TEXT_MIME_TYPE)).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/** ZIP container; DOCX, XLSX, ODT and EPUB files are ZIP archives. */
+export const ZIP_MIME_TYPE = "application/zip";
+/** OLE2 compound file: legacy Office formats and encrypted OOXML files. */
+export const OLE_MIME_TYPE = "application/x-ole-storage";
+/** Any content that decodes as UTF-8 without control bytes. */
+export const TEXT_MIME_TYPE = "text/plain";
+
+interface Signature {
+  mimeType: string;
+  magic: Buffer;
+  /** Further header checks for short, text-like magic numbers. */
+  validate?: (data: Buffer) => boolean;
+}
+
+/** BITMAPCOREHEADER through BITMAPV5HEADER, plus the OS/2 variants. */
+const BMP_DIB_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+const SIGNATURES: Signature[] = [
+  { mimeType: "image/png", magic: Buffer.from("89504e470d0a1a0a", "hex") },
+  { mimeType: "image/jpeg", magic: Buffer.from("ffd8ff", "hex") },
+  { mimeType: "image/gif", magic: Buffer.from("GIF87a", "latin1") },
+  { mimeType: "image/gif", magic: Buffer.from("GIF89a", "latin1") },
+  { mimeType: "image/tiff", magic: Buffer.from("49492a00", "hex") },
+  { mimeType: "image/tiff", magic: Buffer.from("4d4d002a", "hex") },
+  {
+    mimeType: "image/bmp",
+    magic: Buffer.from("BM", "latin1"),
+    // The header records the file size and the size of the DIB header after it
+    validate: (data) =>
+      data.length >= 18 &&
+      data.readUInt32LE(2) === data.length &&
+      BMP_DIB_HEADER_SIZES.includes(data.readUInt32LE(14)),
+  },
+  { mimeType: ZIP_MIME_TYPE, magic: Buffer.from("504b0304", "hex") },
+  // Empty archive
+  { mimeType: ZIP_MIME_TYPE, magic: Buffer.from("504b0506", "hex") },
+  { mimeType: OLE_MIME_TYPE, magic: Buffer.from("d0cf11e0a1b11ae1", "hex") },
+  { mimeType: "application/rtf", magic: Buffer.from("{\\rtf", "latin1") },
+];
+
+/** Declared types whose files are ZIP archives. */
+const ZIP_BASED_TYPES = [
+  ZIP_MIME_TYPE,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/epub+zip",
+];
+
+/** Declared types whose files are OLE2 compound files. */
+const OLE_BASED_TYPES = [
+  "application/msword",
+  "application/vnd.ms-excel",
+  "application/vnd.ms-powerpoint",
+];
+
+const TEXT_BASED_TYPES = [
+  "application/xhtml+xml",
+  "application/json",
+  "application/xml",
+];
+
+/** Text sniffing only looks at the start of the file. */
+const TEXT_SAMPLE_SIZE = 8192;
+/** Spec allows junk before the PDF header, within the first kilobyte. */
+const PDF_HEADER_WINDOW = 1024;
+
+/**
+ * MIME type of `data` judged by its content: magic bytes for binary
+ * formats, `text/plain` for anything that reads as text, otherwise
+ * undefined. Text declared as `declared` stays text even when it happens
+ * to start with a magic number such as "BM" or "{\rtf".
+ */
+export function sniffMimeType(
+  data: Buffer,
+  declared?: string
+): string | undefined {
+  if (declared && isTextType(declared) && looksLikeText(data)) {
+    return TEXT_MIME_TYPE;
+  }
+  const signature = SIGNATURES.find(
+    ({ magic, validate }) =>
+      data.subarray(0, magic.length).equals(magic) &&
+      (!validate || validate(data))
+  );
+  if (signature) {
+    return signature.mimeType;
+  }
+  if (hasPdfHeader(data)) {
+    return "application/pdf";
+  }
+  return looksLikeText(data) ? TEXT_MIME_TYPE : undefined;
+}
+
+/** Whether content sniffed as `sniffed` may be a file declared as `declared`. */
+export function isCompatibleType(declared: string, sniffed: string): boolean {
+  if (declared === sniffed) {
+    return true;
+  }
+  switch (sniffed) {
+    case ZIP_MIME_TYPE:
+      return ZIP_BASED_TYPES.includes(declared);
+    case OLE_MIME_TYPE:
+      return OLE_BASED_TYPES.includes(declared);
+    case TEXT_MIME_TYPE:
+      return isTextType(declared);
+    default:
+      return false;
+  }
+}
+
+/** Whether `declared` is an Office Open XML type (a ZIP archive when not encrypted). */
+export function isOfficeOpenXml(declared: string): boolean {
+  return declared.startsWith("application/vnd.openxmlformats-officedocument.");
+}
+
+function isTextType(declared: string): boolean {
+  return declared.startsWith("text/") || TEXT_BASED_TYPES.includes(declared);
+}
+
+/**
+ * A PDF header at the start of the file, or later in the first kilobyte
+ * behind binary junk. Text that merely mentions "%PDF-" is not a PDF.
+ */
+function hasPdfHeader(data: Buffer): boolean {
+  const offset = data.subarray(0, PDF_HEADER_WINDOW).indexOf("%PDF-");
+  return (
+    offset === 0 || (offset > 0 && !looksLikeText(data.subarray(0, offset)))
+  );
+}
+
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, TEXT_SAMPLE_SIZE);
+  // Control characters other than tab, line breaks and form feed
+  if (/[\x00-\x08\x0e-\x1a\x1c-\x1f]/.test(sample.toString("latin1"))) {
+    return false;
+  }
+
+  try {
+    // `stream` tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,398 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import { PDFParse } from "pdf-parse";
+import * as UTIF from "utif2";
+import { DocumentProcessingJob } from "../dto/processing.dto";
+import { IntakeError, IntakeErrorCode } from "../errors/processing.errors";
+import { TextExtractorRegistry } from "../extractors/text-extractor.registry";
+import { readZipEntries } from "../archives/zip";
+import { StorageService } from "../../storage/storage.service";
+import { StorageError, StorageErrorCode } from "../../storage/storage.errors";
+import { MetricsService } from "../../metrics/metrics.service";
+import { parseByteSize } from "../../common/utils/byte-size";
+import {
+  OLE_MIME_TYPE,
+  ZIP_MIME_TYPE,
+  isCompatibleType,
+  isOfficeOpenXml,
+  sniffMimeType,
+} from "./file-signatures";
+import { ScanResult, VirusScanner } from "./scanners/virus-scanner.interface";
+import { ClamAvScanner } from "./scanners/clamav.scanner";
+import { StubVirusScanner } from "./scanners/stub.scanner";
+
+const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+/** Main part of a DOCX file; a ZIP archive without it is not one. */
+const DOCX_DOCUMENT_PART = "word/document.xml";
+
+export interface IntakeReport {
+  /** Type sniffed from the content; undefined for unrecognized binary data. */
+  mimeType?: string;
+  /** Actual size in bytes, whatever the job declared. */
+  size: number;
+  /** SHA-256 of the contents. */
+  contentHash: string;
+  /** Pages of a PDF or TIFF. */
+  pageCount?: number;
+  /** Scanner the file passed, or "none" when scanning is disabled. */
+  scanner: string;
+}
+
+export interface InspectedFile extends IntakeReport {
+  /** Contents that passed the checks; the steps process these bytes. */
+  data: Buffer;
+}
+
+/**
+ * Checks a file before any step reads it: size, real type from the magic
+ * bytes against the declared `fileType`, page count, encryption and
+ * structure of PDFs and ZIP archives, and a virus scan. A rejected file
+ * fails the job with an `IntakeError` whose code says why.
+ */
+@Injectable()
+export class IntakeService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(IntakeService.name);
+  private readonly scanners = new Map<string, VirusScanner>();
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly extractorRegistry: TextExtractorRegistry,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+    clamAvScanner: ClamAvScanner,
+    stubScanner: StubVirusScanner
+  ) {
+    [clamAvScanner, stubScanner].forEach((scanner) => this.register(scanner));
+  }
+
+  /**
+   * Fails startup unless `VIRUS_SCANNER` names a registered scanner or
+   * `none`. Runs after every module's `onModuleInit`, so scanners
+   * registered there count.
+   */
+  onApplicationBootstrap() {
+    const name = this.scannerName();
+    if (!name) {
+      throw new Error(
+        "VIRUS_SCANNER is not set; use clamav, stub (development only) or none"
+      );
+    }
+    if (name !== "none" && !this.scanners.has(name)) {
+      throw new Error(`No virus scanner registered as "${name}"`);
+    }
+    this.logger.log(`Virus scanner: ${name}`);
+  }
+
+  /** Registers a scanner, replacing any registered under the same name. */
+  register(scanner: VirusScanner): void {
+    this.scanners.set(scanner.name, scanner);
+  }
+
+  async inspect(job: DocumentProcessingJob): Promise<InspectedFile> {
+    try {
+      return await this.runChecks(job);
+    } catch (error) {
+      if (error instanceof IntakeError) {
+        this.metrics.recordIntakeRejection(error.code);
+        this.logger.warn(
+          `Rejected ${job.fileName} of document ${job.documentId}: ${error.code} ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async runChecks(job: DocumentProcessingJob): Promise<InspectedFile> {
+    const { data, contentHash } = await this.read(job);
+    if (!data.length) {
+      throw new IntakeError(IntakeErrorCode.EMPTY_FILE, "File is empty");
+    }
+    if (job.fileSize && job.fileSize !== data.length) {
+      this.logger.warn(
+        `${job.fileName} is ${data.length} bytes, job declared ${job.fileSize}`
+      );
+    }
+
+    const declared = this.extractorRegistry.resolveMimeType(
+      job.fileType,
+      job.fileName
+    );
+    const mimeType = sniffMimeType(data, declared);
+    this.checkType(job, declared, mimeType);
+    const pageCount = await this.checkStructure(job, data, mimeType);
+
+    const maxPages = Number(
+      this.configService.get("MAX_PAGES_PER_DOCUMENT", 1000)
+    );
+    if (maxPages > 0 && pageCount > maxPages) {
+      throw new IntakeError(
+        IntakeErrorCode.TOO_MANY_PAGES,
+        `File has ${pageCount} pages, the limit is ${maxPages}`
+      );
+    }
+
+    const scanner = await this.scan(data);
+    return {
+      mimeType,
+      size: data.length,
+      contentHash,
+      pageCount,
+      scanner,
+      data,
+    };
+  }
+
+  /** Reads the file, hashing it and giving up as soon as it exceeds the size limit. */
+  private async read(
+    job: DocumentProcessingJob
+  ): Promise<{ data: Buffer; contentHash: string }> {
+    const maxSize = parseByteSize(
+      this.configService.get("MAX_FILE_SIZE", "100MB")
+    );
+    const stream = await this.storageService.createReadStream(job.storagePath);
+    const hash = createHash("sha256");
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    try {
+      for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += buffer.length;
+        if (maxSize && size > maxSize) {
+          stream.destroy();
+          throw this.tooLarge(size, maxSize);
+        }
+        hash.update(buffer);
+        chunks.push(buffer);
+      }
+    } catch (error) {
+      if (error instanceof IntakeError) {
+        throw error;
+      }
+      throw new StorageError(
+        StorageErrorCode.UNAVAILABLE,
+        `Failed while reading ${job.storagePath}: ${error.message}`,
+        error
+      );
+    }
+
+    return { data: Buffer.concat(chunks), contentHash: hash.digest("hex") };
+  }
+
+  private checkType(
+    job: DocumentProcessingJob,
+    declared: string | undefined,
+    sniffed: string | undefined
+  ) {
+    // Unknown declared types are left to the steps to accept or refuse
+    if (!declared || (sniffed && isCompatibleType(declared, sniffed))) {
+      return;
+    }
+
+    // Password-protected DOCX/XLSX/PPTX are OLE files wrapping the package
+    if (sniffed === OLE_MIME_TYPE && isOfficeOpenXml(declared)) {
+      throw new IntakeError(
+        IntakeErrorCode.ENCRYPTED_FILE,
+        `${job.fileName} is a password-protected Office document`
+      );
+    }
+    throw new IntakeError(
+      IntakeErrorCode.FILE_TYPE_MISMATCH,
+      `${job.fileName} was declared as ${declared} but its content is ${sniffed ?? "not a recognized format"}`
+    );
+  }
+
+  /** Validates PDFs, TIFFs and ZIP archives, returning their page count. */
+  private async checkStructure(
+    job: DocumentProcessingJob,
+    data: Buffer,
+    mimeType: string | undefined
+  ): Promise<number | undefined> {
+    switch (mimeType) {
+      case "application/pdf":
+        return this.checkPdf(data);
+      case "image/tiff":
+        return this.checkTiff(data);
+      case ZIP_MIME_TYPE:
+        this.checkArchive(job, data);
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private async checkPdf(data: Buffer): Promise<number> {
+    // PDF.js may take ownership of the buffer it is given
+    const parser = new PDFParse({ data: new Uint8Array(data) });
+
+    try {
+      const { total } = await parser.getInfo();
+      return total;
+    } catch (error) {
+      if (error?.name === "PasswordException") {
+        throw new IntakeError(
+          IntakeErrorCode.ENCRYPTED_FILE,
+          "PDF is password protected",
+          error
+        );
+      }
+      throw new IntakeError(
+        IntakeErrorCode.CORRUPT_FILE,
+        `PDF could not be read: ${error.message}`,
+        error
+      );
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  private checkTiff(data: Buffer): number {
+    let pages: number;
+    try {
+      pages = UTIF.decode(data).filter(
+        (ifd) => ifd["t256"] !== undefined
+      ).length;
+    } catch (error) {
+      throw new IntakeError(
+        IntakeErrorCode.CORRUPT_FILE,
+        `TIFF could not be read: ${error.message}`,
+        error
+      );
+    }
+    if (!pages) {
+      throw new IntakeError(
+        IntakeErrorCode.CORRUPT_FILE,
+        "TIFF contains no images"
+      );
+    }
+    return pages;
+  }
+
+  private checkArchive(job: DocumentProcessingJob, data: Buffer): void {
+    const maxSize = parseByteSize(
+      this.configService.get("MAX_UNCOMPRESSED_SIZE", "500MB")
+    );
+    let entries: ReturnType<typeof readZipEntries>;
+    try {
+      entries = readZipEntries(data, maxSize);
+    } catch (error) {
+      throw new IntakeError(
+        IntakeErrorCode.CORRUPT_FILE,
+        `Archive could not be read: ${error.message}`,
+        error
+      );
+    }
+
+    if (entries.some((entry) => entry.encrypted)) {
+      throw new IntakeError(
+        IntakeErrorCode.ENCRYPTED_FILE,
+        "Archive contains encrypted entries"
+      );
+    }
+
+    // Guards against ZIP bombs before any extractor inflates the entries;
+    // reading an entry never inflates more than its recorded size
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (maxSize && totalSize > maxSize) {
+      throw new IntakeError(
+        IntakeErrorCode.ARCHIVE_TOO_LARGE,
+        `Archive expands to ${totalSize} bytes, the limit is ${maxSize}`
+      );
+    }
+    const maxRatio = Number(
+      this.configService.get("MAX_COMPRESSION_RATIO", 100)
+    );
+    const compressedSize = entries.reduce(
+      (sum, entry) => sum + entry.compressedSize,
+      0
+    );
+    if (maxRatio > 0 && totalSize > maxRatio * Math.max(compressedSize, 1)) {
+      throw new IntakeError(
+        IntakeErrorCode.ARCHIVE_TOO_LARGE,
+        `Archive expands ${Math.round(totalSize / Math.max(compressedSize, 1))} times, the limit is ${maxRatio}`
+      );
+    }
+
+    const declared = this.extractorRegistry.resolveMimeType(
+      job.fileType,
+      job.fileName
+    );
+    if (declared !== DOCX_MIME_TYPE) {
+      return;
+    }
+    if (!entries.some((entry) => entry.name === DOCX_DOCUMENT_PART)) {
+      throw new IntakeError(
+        IntakeErrorCode.FILE_TYPE_MISMATCH,
+        `${job.fileName} is a ZIP archive but not a Word document`
+      );
+    }
+    // The DOCX extractor inflates parts without looking at their recorded
+    // sizes, so every part must inflate to exactly that size. This also
+    // catches truncated and damaged files.
+    for (const entry of entries) {
+      if (entry.isDirectory) {
+        continue;
+      }
+      try {
+        entry.read();
+      } catch (error) {
+        throw new IntakeError(
+          IntakeErrorCode.CORRUPT_FILE,
+          `Part ${entry.name} could not be read: ${error.message}`,
+          error
+        );
+      }
+    }
+  }
+
+  /** Scanner picked by `VIRUS_SCANNER`; there is no default. */
+  private scannerName(): string | undefined {
+    return this.configService.get<string>("VIRUS_SCANNER")?.trim() || undefined;
+  }
+
+  private async scan(data: Buffer): Promise<string> {
+    const name = this.scannerName();
+    if (name === "none") {
+      return name;
+    }
+
+    // Checked at startup; a retry would not fix the configuration either
+    const scanner = name && this.scanners.get(name);
+    if (!scanner) {
+      throw new IntakeError(
+        IntakeErrorCode.SCANNER_NOT_CONFIGURED,
+        name
+          ? `No virus scanner registered as "${name}"`
+          : "VIRUS_SCANNER is not set"
+      );
+    }
+
+    let result: ScanResult;
+    try {
+      result = await scanner.scan(data);
+    } catch (error) {
+      throw new IntakeError(
+        IntakeErrorCode.SCAN_FAILED,
+        `${scanner.name} scan failed: ${error.message}`,
+        error
+      );
+    }
+
+    if (!result.clean) {
+      throw new IntakeError(
+        IntakeErrorCode.MALWARE_DETECTED,
+        `${scanner.name} found ${result.signature ?? "malware"}`
+      );
+    }
+    return scanner.name;
+  }
+
+  private tooLarge(size: number, maxSize: number): IntakeError {
+    return new IntakeError(
+      IntakeErrorCode.FILE_TOO_LARGE,
+      `File is larger than the ${maxSize} byte limit (read ${size} bytes)`
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createConnection } from "net";
+import { ScanResult, VirusScanner } from "./virus-scanner.interface";
+
+/** clamd reads the stream in chunks, each prefixed with its length. */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scans files with a ClamAV daemon (`clamd`) over TCP using the INSTREAM
+ * command. Files larger than clamd's `StreamMaxLength` (25 MB by default)
+ * are refused by the daemon and fail the scan.
+ */
+@Injectable()
+export class ClamAvScanner implements VirusScanner {
+  readonly name = "clamav";
+
+  constructor(private readonly configService: ConfigService) {}
+
+  scan(data: Buffer): Promise<ScanResult> {
+    const host = this.configService.get("CLAMAV_HOST", "localhost");
+    const port = Number(this.configService.get("CLAMAV_PORT", 3310));
+    const timeoutMs = Number(this.configService.get("CLAMAV_TIMEOUT", 30000));
+
+    return new Promise((resolve, reject) => {
+      const reply: Buffer[] = [];
+      const socket = createConnection({ host, port });
+
+      socket.setTimeout(timeoutMs, () =>
+        socket.destroy(
+          new Error(
+            `ClamAV at ${host}:${port} did not answer within ${timeoutMs}ms`
+          )
+        )
+      );
+      socket.on("connect", () => {
+        socket.write("zINSTREAM\0");
+        for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+          const chunk = data.subarray(offset, offset + CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(Buffer.concat([length, chunk]));
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+      socket.on("data", (chunk) => reply.push(chunk));
+      socket.on("error", reject);
+      socket.on("close", (hadError) => {
+        if (hadError) {
+          return;
+        }
+        try {
+          resolve(this.parseReply(Buffer.concat(reply).toString("utf8")));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  /** Replies look like "stream: OK" or "stream: Eicar-Signature FOUND". */
+  private parseReply(reply: string): ScanResult {
+    const message = reply.replace(/\0/g, "").trim();
+    if (message === "stream: OK") {
+      return { clean: true };
+    }
+
+    const found = message.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return { clean: false, signature: found[1] };
+    }
+    throw new Error(`ClamAV could not scan the file: ${message || "no reply"}`);
+  }
+}
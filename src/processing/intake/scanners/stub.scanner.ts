@@ -0,0 +1,21 @@
+import { Injectable } from "@nestjs/common";
+import { ScanResult, VirusScanner } from "./virus-scanner.interface";
+
+/** Standard anti-virus test file contents. */
+const EICAR_SIGNATURE =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+/**
+ * Scanner for development and tests: only flags the EICAR test file, so the
+ * rejection path can be exercised without a ClamAV daemon.
+ */
+@Injectable()
+export class StubVirusScanner implements VirusScanner {
+  readonly name = "stub";
+
+  async scan(data: Buffer): Promise<ScanResult> {
+    return data.includes(EICAR_SIGNATURE)
+      ? { clean: false, signature: "Eicar-Test-Signature" }
+      : { clean: true };
+  }
+}
@@ -0,0 +1,12 @@
+export interface ScanResult {
+  clean: boolean;
+  /** Name of the detected malware when the file is not clean. */
+  signature?: string;
+}
+
+export interface VirusScanner {
+  /** Name used to select the scanner through `VIRUS_SCANNER`. */
+  readonly name: string;
+  /** Throws when the file could not be scanned. */
+  scan(data: Buffer): Promise<ScanResult>;
+}
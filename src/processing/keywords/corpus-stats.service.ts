@@ -0,0 +1,68 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import Redis from "ioredis";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+
+const DOCUMENTS_KEY = "processing:corpus:documents";
+const DOCUMENT_FREQUENCY_KEY = "processing:corpus:df";
+/** Upper bound on terms recorded per document, to keep the hash bounded. */
+const MAX_TERMS_PER_DOCUMENT = 5000;
+
+export interface CorpusStats {
+  /** Documents recorded so far. */
+  documentCount: number;
+  /** Number of recorded documents containing each requested term. */
+  documentFrequency: Map<string, number>;
+}
+
+/**
+ * Document frequencies shared between workers through Redis, so keyword
+ * IDF weights improve as more documents are processed. Each document is
+ * counted once, however often it is reprocessed.
+ */
+@Injectable()
+export class CorpusStatsService {
+  private readonly logger = new Logger(CorpusStatsService.name);
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async getStats(terms: string[]): Promise<CorpusStats> {
+    const documentFrequency = new Map<string, number>();
+
+    try {
+      const [documentCount, frequencies] = await Promise.all([
+        this.redis.scard(DOCUMENTS_KEY),
+        terms.length
+          ? this.redis.hmget(DOCUMENT_FREQUENCY_KEY, ...terms)
+          : Promise.resolve([]),
+      ]);
+
+      terms.forEach((term, i) =>
+        documentFrequency.set(term, Number(frequencies[i]) || 0)
+      );
+      return { documentCount, documentFrequency };
+    } catch (error) {
+      // Without corpus stats keywords are ranked on term frequency alone
+      this.logger.warn(`Failed to load corpus statistics: ${error.message}`);
+      return { documentCount: 0, documentFrequency };
+    }
+  }
+
+  async recordDocument(documentId: string, terms: Set<string>): Promise<void> {
+    try {
+      const added = await this.redis.sadd(DOCUMENTS_KEY, documentId);
+      if (!added) {
+        return;
+      }
+
+      const pipeline = this.redis.pipeline();
+      [...terms]
+        .slice(0, MAX_TERMS_PER_DOCUMENT)
+        .forEach((term) => pipeline.hincrby(DOCUMENT_FREQUENCY_KEY, term, 1));
+      await pipeline.exec();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record corpus statistics for document ${documentId}: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Injectable } from "@nestjs/common";
+import { ScoredKeyword } from "../dto/processing.dto";
+import { getStopwords } from "../text/stopwords";
+import { isNumeric, tokenize } from "../text/tokenizer";
+import { CorpusStatsService } from "./corpus-stats.service";
+
+/** Punctuation that ends a key-phrase candidate. */
+const PHRASE_DELIMITERS = /[.,;:!?()[\]{}"“”„«»|/\\•·…\n\r\t]+/;
+const MIN_WORD_LENGTH = 3;
+const MAX_PHRASE_WORDS = 3;
+/** A phrase has to repeat before it is worth reporting. */
+const MIN_PHRASE_COUNT = 2;
+
+export interface KeywordExtractionOptions {
+  /** ISO 639-1 code selecting the stopword list. */
+  language?: string;
+  limit: number;
+}
+
+interface Candidate {
+  keyword: string;
+  words: string[];
+  count: number;
+}
+
+/**
+ * RAKE-style candidate generation (runs of content words between stopwords
+ * and punctuation, cut into phrases of up to three words) scored with
+ * TF-IDF against the shared corpus statistics.
+ */
+@Injectable()
+export class KeywordExtractorService {
+  constructor(private readonly corpusStats: CorpusStatsService) {}
+
+  async extract(
+    documentId: string,
+    text: string,
+    { language, limit }: KeywordExtractionOptions
+  ): Promise<ScoredKeyword[]> {
+    const stopwords = getStopwords(language);
+    const { words, phrases, tokenCount } = this.collectCandidates(
+      text,
+      stopwords
+    );
+    if (!words.size) {
+      return [];
+    }
+
+    const terms = [...words.keys()];
+    const { documentCount, documentFrequency } =
+      await this.corpusStats.getStats(terms);
+    const idf = (word: string) =>
+      Math.log((1 + documentCount) / (1 + (documentFrequency.get(word) ?? 0))) +
+      1;
+
+    const scored = [...words.values(), ...phrases.values()]
+      .filter(
+        (candidate) =>
+          candidate.words.length === 1 || candidate.count >= MIN_PHRASE_COUNT
+      )
+      .map((candidate) => ({
+        candidate,
+        score:
+          (candidate.count / tokenCount) *
+          candidate.words.reduce((sum, word) => sum + idf(word), 0),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    await this.corpusStats.recordDocument(documentId, new Set(terms));
+
+    return this.select(scored, limit);
+  }
+
+  private collectCandidates(text: string, stopwords: ReadonlySet<string>) {
+    const words = new Map<string, Candidate>();
+    const phrases = new Map<string, Candidate>();
+    let tokenCount = 0;
+
+    const add = (target: Map<string, Candidate>, run: string[]) => {
+      const keyword = run.join(" ");
+      const candidate = target.get(keyword);
+      if (candidate) {
+        candidate.count++;
+      } else {
+        target.set(keyword, { keyword, words: run, count: 1 });
+      }
+    };
+
+    for (const fragment of text.split(PHRASE_DELIMITERS)) {
+      let run: string[] = [];
+      // Every 2..MAX_PHRASE_WORDS word window of a run is a phrase candidate
+      const flush = () => {
+        for (let start = 0; start < run.length - 1; start++) {
+          const maxEnd = Math.min(run.length, start + MAX_PHRASE_WORDS);
+          for (let end = start + 2; end <= maxEnd; end++) {
+            add(phrases, run.slice(start, end));
+          }
+        }
+        run = [];
+      };
+
+      for (const token of tokenize(fragment)) {
+        tokenCount++;
+        if (
+          stopwords.has(token) ||
+          isNumeric(token) ||
+          [...token].length < MIN_WORD_LENGTH
+        ) {
+          flush();
+          continue;
+        }
+        add(words, [token]);
+        run.push(token);
+      }
+      flush();
+    }
+
+    return { words, phrases, tokenCount };
+  }
+
+  /**
+   * Takes the best candidates, skipping single words already covered by a
+   * chosen phrase, and scales scores so the top keyword scores 1.
+   */
+  private select(
+    scored: { candidate: Candidate; score: number }[],
+    limit: number
+  ): ScoredKeyword[] {
+    const chosen: { candidate: Candidate; score: number }[] = [];
+    const coveredWords = new Set<string>();
+
+    for (const entry of scored) {
+      if (chosen.length >= limit) {
+        break;
+      }
+      const { words } = entry.candidate;
+      if (words.length === 1 && coveredWords.has(words[0])) {
+        continue;
+      }
+      if (words.length > 1) {
+        words.forEach((word) => coveredWords.add(word));
+      }
+      chosen.push(entry);
+    }
+
+    const top = chosen[0]?.score || 1;
+    return chosen.map(({ candidate, score }) => ({
+      keyword: candidate.keyword,
+      score: Math.round((score / top) * 1000) / 1000,
+    }));
+  }
+}
@@ -0,0 +1,214 @@
+import { Injectable } from "@nestjs/common";
+import LanguageDetect = require("languagedetect");
+import { DetectedLanguage, LanguageSection } from "../dto/processing.dto";
+import { tokenize } from "../text/tokenizer";
+import { DEVANAGARI_MARKERS, SCRIPTS } from "./scripts";
+
+/** Below this many letters a guess is noise. */
+const MIN_LETTERS = 20;
+/** Scripts making up less of the text than this are ignored (quotes, names). */
+const MIN_SCRIPT_SHARE = 0.1;
+/** Longest sample given to the n-gram model; more text barely changes the ranking. */
+const MAX_SAMPLE_LENGTH = 5000;
+/** Spread of n-gram similarity scores turned into confidences; lower is more decisive. */
+const SCORE_TEMPERATURE = 0.05;
+const MAX_LANGUAGES = 5;
+const MIN_CONFIDENCE = 0.05;
+
+export interface LanguageDetection {
+  /** Languages of the whole text, most likely first. */
+  languages: DetectedLanguage[];
+  /** Consecutive stretches of text in the same language. */
+  sections: LanguageSection[];
+}
+
+/**
+ * Detects languages by writing system first, then by character trigram
+ * profiles for scripts shared between languages (Latin, Cyrillic, Arabic)
+ * and by function words for Devanagari. Codes are ISO 639-1.
+ */
+@Injectable()
+export class LanguageDetectorService {
+  private readonly ngramModel = new LanguageDetect();
+
+  constructor() {
+    this.ngramModel.setLanguageType("iso2");
+  }
+
+  /** Ranked languages of `text`; empty when there is too little text. */
+  detect(text: string): DetectedLanguage[] {
+    const sample = text.slice(0, MAX_SAMPLE_LENGTH);
+    const scripts = this.countScripts(sample);
+    const letters = [...scripts.values()].reduce((sum, n) => sum + n, 0);
+    if (letters < MIN_LETTERS) {
+      return [];
+    }
+
+    const scores = new Map<string, number>();
+    for (const script of SCRIPTS) {
+      const share = (scripts.get(script.name) ?? 0) / letters;
+      if (share < MIN_SCRIPT_SHARE) {
+        continue;
+      }
+
+      const distribution =
+        script.languages.length === 1
+          ? new Map([[script.languages[0], 1]])
+          : script.name === "Devanagari"
+            ? this.scoreDevanagari(sample)
+            : this.scoreNgrams(sample);
+
+      distribution.forEach((probability, language) =>
+        scores.set(language, (scores.get(language) ?? 0) + probability * share)
+      );
+    }
+
+    return this.rank(scores);
+  }
+
+  /**
+   * Detects the language of every `sectionSize`-character stretch of
+   * lines, merging neighbours in the same language, and ranks the
+   * document's languages by how much of the text each covers.
+   */
+  detectSections(text: string, sectionSize: number): LanguageDetection {
+    const sections: LanguageSection[] = [];
+    const totals = new Map<string, number>();
+    let detectedLength = 0;
+
+    for (const chunk of this.chunk(text, sectionSize)) {
+      const languages = this.detect(text.slice(chunk.start, chunk.end));
+      const previous = sections[sections.length - 1];
+
+      if (!languages.length) {
+        // Too short to tell (headings, numbers): belongs to the section before
+        if (previous) {
+          previous.end = chunk.end;
+        }
+        continue;
+      }
+
+      const length = chunk.end - chunk.start;
+      detectedLength += length;
+      languages.forEach(({ language, confidence }) =>
+        totals.set(language, (totals.get(language) ?? 0) + confidence * length)
+      );
+
+      const [top] = languages;
+      if (previous?.language === top.language) {
+        const previousLength = previous.end - previous.start;
+        previous.confidence = this.round(
+          (previous.confidence * previousLength + top.confidence * length) /
+            (previousLength + length)
+        );
+        previous.end = chunk.end;
+      } else {
+        sections.push({
+          start: chunk.start,
+          end: chunk.end,
+          language: top.language,
+          confidence: top.confidence,
+        });
+      }
+    }
+
+    totals.forEach((total, language) =>
+      totals.set(language, total / detectedLength)
+    );
+    return { languages: this.rank(totals), sections };
+  }
+
+  private countScripts(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+
+    for (const char of text.match(/\p{L}/gu) ?? []) {
+      const script = SCRIPTS.find(({ pattern }) => pattern.test(char));
+      if (script) {
+        counts.set(script.name, (counts.get(script.name) ?? 0) + 1);
+      }
+    }
+
+    // Japanese mixes kanji with kana; Han without kana is Chinese
+    if (counts.get("Kana") && counts.get("Han")) {
+      counts.set("Kana", counts.get("Kana")! + counts.get("Han")!);
+      counts.delete("Han");
+    }
+
+    return counts;
+  }
+
+  private scoreNgrams(text: string): Map<string, number> {
+    const matches = this.ngramModel
+      .detect(text, MAX_LANGUAGES)
+      .filter(([language]) => !!language);
+    if (!matches.length) {
+      return new Map();
+    }
+
+    // Similarity scores are close together; exponentiate the gap to the best
+    const best = matches[0][1];
+    return this.normalize(
+      new Map(
+        matches.map(([language, score]) => [
+          language,
+          Math.exp((score - best) / SCORE_TEMPERATURE),
+        ])
+      )
+    );
+  }
+
+  private scoreDevanagari(text: string): Map<string, number> {
+    const words = tokenize(text);
+    const hits = new Map(
+      Object.entries(DEVANAGARI_MARKERS).map(([language, markers]) => {
+        const markerSet = new Set(markers);
+        return [language, words.filter((word) => markerSet.has(word)).length];
+      })
+    );
+
+    // Hindi is by far the most common Devanagari language
+    if (![...hits.values()].some(Boolean)) {
+      return new Map([["hi", 1]]);
+    }
+    return this.normalize(hits);
+  }
+
+  private *chunk(text: string, size: number) {
+    // Cut at the first line break after `size` characters
+    const lineBreak = /\n\s*/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = lineBreak.exec(text))) {
+      if (match.index - start >= size) {
+        yield { start, end: match.index };
+        start = match.index + match[0].length;
+      }
+    }
+    if (start < text.length) {
+      yield { start, end: text.length };
+    }
+  }
+
+  private normalize(scores: Map<string, number>): Map<string, number> {
+    const total = [...scores.values()].reduce((sum, n) => sum + n, 0);
+    return new Map(
+      [...scores].map(([language, score]) => [language, score / total])
+    );
+  }
+
+  private rank(scores: Map<string, number>): DetectedLanguage[] {
+    return [...scores]
+      .map(([language, confidence]) => ({
+        language,
+        confidence: this.round(confidence),
+      }))
+      .filter(({ confidence }) => confidence >= MIN_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_LANGUAGES);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
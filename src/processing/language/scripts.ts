@@ -0,0 +1,91 @@
+/**
+ * Writing systems the detector tells apart before looking at n-grams.
+ * `languages` lists the ISO 639-1 codes written in the script; a script
+ * used by a single language identifies it outright.
+ */
+export interface Script {
+  name: string;
+  pattern: RegExp;
+  languages: string[];
+}
+
+export const SCRIPTS: Script[] = [
+  { name: "Latin", pattern: /\p{Script=Latin}/u, languages: [] },
+  { name: "Cyrillic", pattern: /\p{Script=Cyrillic}/u, languages: [] },
+  { name: "Arabic", pattern: /\p{Script=Arabic}/u, languages: [] },
+  {
+    name: "Devanagari",
+    pattern: /\p{Script=Devanagari}/u,
+    languages: ["hi", "mr", "ne"],
+  },
+  { name: "Bengali", pattern: /\p{Script=Bengali}/u, languages: ["bn"] },
+  { name: "Gurmukhi", pattern: /\p{Script=Gurmukhi}/u, languages: ["pa"] },
+  { name: "Gujarati", pattern: /\p{Script=Gujarati}/u, languages: ["gu"] },
+  { name: "Oriya", pattern: /\p{Script=Oriya}/u, languages: ["or"] },
+  { name: "Tamil", pattern: /\p{Script=Tamil}/u, languages: ["ta"] },
+  { name: "Telugu", pattern: /\p{Script=Telugu}/u, languages: ["te"] },
+  { name: "Kannada", pattern: /\p{Script=Kannada}/u, languages: ["kn"] },
+  { name: "Malayalam", pattern: /\p{Script=Malayalam}/u, languages: ["ml"] },
+  { name: "Greek", pattern: /\p{Script=Greek}/u, languages: ["el"] },
+  { name: "Hebrew", pattern: /\p{Script=Hebrew}/u, languages: ["he"] },
+  { name: "Thai", pattern: /\p{Script=Thai}/u, languages: ["th"] },
+  { name: "Hangul", pattern: /\p{Script=Hangul}/u, languages: ["ko"] },
+  {
+    name: "Kana",
+    pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+    languages: ["ja"],
+  },
+  { name: "Han", pattern: /\p{Script=Han}/u, languages: ["zh"] },
+];
+
+/**
+ * Frequent function words separating the languages written in Devanagari,
+ * which share too many character n-grams to be told apart reliably.
+ */
+export const DEVANAGARI_MARKERS: Record<string, string[]> = {
+  hi: [
+    "है",
+    "हैं",
+    "का",
+    "की",
+    "के",
+    "में",
+    "और",
+    "से",
+    "को",
+    "यह",
+    "था",
+    "थे",
+    "नहीं",
+    "लिए",
+  ],
+  mr: [
+    "आहे",
+    "आहेत",
+    "आणि",
+    "या",
+    "हे",
+    "ते",
+    "मध्ये",
+    "व",
+    "नाही",
+    "होते",
+    "केले",
+    "त्या",
+    "करण्यात",
+  ],
+  ne: [
+    "छ",
+    "छन्",
+    "र",
+    "मा",
+    "पनि",
+    "यो",
+    "गर्न",
+    "भएको",
+    "हो",
+    "थियो",
+    "गरेको",
+    "लागि",
+  ],
+};
@@ -0,0 +1,29 @@
+import { Injectable } from "@nestjs/common";
+import { parseCsv } from "../extractors/csv.extractor";
+import { decodeText } from "../extractors/plain-text.extractor";
+import {
+  FileMetadata,
+  MetadataExtractor,
+} from "./metadata-extractor.interface";
+
+@Injectable()
+export class CsvMetadataExtractor implements MetadataExtractor {
+  readonly name = "csv";
+  readonly mimeTypes = ["text/csv"];
+
+  async extract(data: Buffer): Promise<FileMetadata> {
+    const rows = parseCsv(decodeText(data)).filter((cells) =>
+      cells.some((cell) => cell.length > 0)
+    );
+    const [header = []] = rows;
+
+    return {
+      rowCount: Math.max(0, rows.length - 1),
+      columnCount: rows.reduce(
+        (count, cells) => Math.max(count, cells.length),
+        0
+      ),
+      columns: header,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable } from "@nestjs/common";
+import { readZipEntries } from "../archives/zip";
+import { decodeEntities } from "../extractors/html.extractor";
+import {
+  FileMetadata,
+  MetadataExtractor,
+  compact,
+  toIsoDate,
+} from "./metadata-extractor.interface";
+
+/**
+ * Reads the OPC document properties of a DOCX file: `docProps/core.xml`
+ * (Dublin Core title, author, dates) and `docProps/app.xml` (application
+ * and page count, as last saved by the editor).
+ */
+@Injectable()
+export class DocxMetadataExtractor implements MetadataExtractor {
+  readonly name = "docx";
+  readonly mimeTypes = [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ];
+
+  async extract(data: Buffer): Promise<FileMetadata> {
+    const entries = readZipEntries(data);
+    const read = (name: string) =>
+      entries
+        .find((entry) => entry.name === name)
+        ?.read()
+        .toString("utf8") ?? "";
+    const core = read("docProps/core.xml");
+    const app = read("docProps/app.xml");
+    const pages = Number(this.element(app, "Pages"));
+
+    return compact({
+      title: this.element(core, "dc:title"),
+      author: this.element(core, "dc:creator"),
+      subject: this.element(core, "dc:subject"),
+      description: this.element(core, "dc:description"),
+      fileKeywords: this.element(core, "cp:keywords")
+        ?.split(/[,;]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean),
+      declaredLanguage: this.element(core, "dc:language"),
+      creator: this.element(app, "Application"),
+      lastModifiedBy: this.element(core, "cp:lastModifiedBy"),
+      createdAt: toIsoDate(this.element(core, "dcterms:created")),
+      modifiedAt: toIsoDate(this.element(core, "dcterms:modified")),
+      pageCount: pages > 0 ? pages : undefined,
+    });
+  }
+
+  private element(xml: string, name: string): string | undefined {
+    const match = xml.match(
+      new RegExp(`<${name}(?:\\s[^>]*)?>([^<]*)</${name}>`)
+    );
+    return match ? decodeEntities(match[1]).trim() || undefined : undefined;
+  }
+}
@@ -0,0 +1,71 @@
+import { Injectable } from "@nestjs/common";
+import { decodeEntities } from "../extractors/html.extractor";
+import { decodeText } from "../extractors/plain-text.extractor";
+import {
+  FileMetadata,
+  MetadataExtractor,
+  compact,
+  toIsoDate,
+} from "./metadata-extractor.interface";
+
+/** Reads `<title>`, `<html lang>` and the common `<meta>` tags of the head. */
+@Injectable()
+export class HtmlMetadataExtractor implements MetadataExtractor {
+  readonly name = "html";
+  readonly mimeTypes = ["text/html", "application/xhtml+xml"];
+
+  async extract(data: Buffer): Promise<FileMetadata> {
+    const html = decodeText(data).replace(/<!--[\s\S]*?-->/g, "");
+    const meta = this.readMetaTags(html);
+    const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+
+    return compact({
+      title: this.clean(title) ?? meta.get("og:title"),
+      author: meta.get("author") ?? meta.get("article:author"),
+      description: meta.get("description") ?? meta.get("og:description"),
+      fileKeywords: meta
+        .get("keywords")
+        ?.split(",")
+        .map((keyword) => keyword.trim())
+        .filter(Boolean),
+      declaredLanguage: this.attribute(
+        html.match(/<html\b[^>]*>/i)?.[0] ?? "",
+        "lang"
+      ),
+      creator: meta.get("generator"),
+      createdAt: toIsoDate(
+        meta.get("article:published_time") ?? meta.get("date")
+      ),
+      modifiedAt: toIsoDate(meta.get("article:modified_time")),
+    });
+  }
+
+  /** `<meta name|property=... content=...>` by lower-cased name. */
+  private readMetaTags(html: string): Map<string, string> {
+    const tags = new Map<string, string>();
+
+    for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+      const name =
+        this.attribute(tag, "name") ?? this.attribute(tag, "property");
+      const content = this.attribute(tag, "content");
+      if (name && content && !tags.has(name.toLowerCase())) {
+        tags.set(name.toLowerCase(), content);
+      }
+    }
+
+    return tags;
+  }
+
+  private attribute(tag: string, name: string): string | undefined {
+    const match = tag.match(
+      new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+    );
+    return match && this.clean(match[1] ?? match[2] ?? match[3]);
+  }
+
+  private clean(value: string | undefined): string | undefined {
+    return value === undefined
+      ? undefined
+      : decodeEntities(value).replace(/\s+/g, " ").trim() || undefined;
+  }
+}
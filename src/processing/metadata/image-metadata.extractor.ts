@@ -0,0 +1,167 @@
+import { Injectable, Logger } from "@nestjs/common";
+import * as UTIF from "utif2";
+import { ExifMetadata } from "../dto/processing.dto";
+import {
+  FileMetadata,
+  MetadataExtractor,
+  compact,
+} from "./metadata-extractor.interface";
+
+type Ifd = Record<string, any>;
+
+const EXIF_HEADER = "Exif\0\0";
+/** JPEG start-of-frame markers; C4, C8 and CC share the range but are not frames. */
+const JPEG_FRAME_MARKERS = [
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+];
+const JPEG_START_OF_SCAN = 0xda;
+
+/**
+ * Reads image dimensions from the file headers, without decoding pixels,
+ * and EXIF tags from JPEG APP1 segments and TIFF directories.
+ */
+@Injectable()
+export class ImageMetadataExtractor implements MetadataExtractor {
+  private readonly logger = new Logger(ImageMetadataExtractor.name);
+
+  readonly name = "image";
+  readonly mimeTypes = ["image/jpeg", "image/png", "image/tiff", "image/bmp"];
+
+  async extract(data: Buffer): Promise<FileMetadata> {
+    if (data.subarray(0, 4).toString("latin1") === "\x89PNG") {
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+    if (data.subarray(0, 2).toString("latin1") === "BM") {
+      return {
+        width: data.readInt32LE(18),
+        // Negative for images stored top-down
+        height: Math.abs(data.readInt32LE(22)),
+      };
+    }
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      return this.extractJpeg(data);
+    }
+    if (["II", "MM"].includes(data.subarray(0, 2).toString("latin1"))) {
+      return this.extractTiff(data);
+    }
+    throw new Error("Unrecognized image format");
+  }
+
+  private extractJpeg(data: Buffer): FileMetadata {
+    const metadata: FileMetadata = {};
+    let offset = 2;
+
+    while (offset + 4 <= data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+
+      if (
+        marker === 0xe1 &&
+        data.subarray(offset + 4, offset + 10).toString("latin1") ===
+          EXIF_HEADER
+      ) {
+        metadata.exif = this.readExif(
+          data.subarray(offset + 10, offset + 2 + length)
+        );
+      } else if (JPEG_FRAME_MARKERS.includes(marker)) {
+        metadata.height = data.readUInt16BE(offset + 5);
+        metadata.width = data.readUInt16BE(offset + 7);
+      }
+
+      if (marker === JPEG_START_OF_SCAN || metadata.width) {
+        break;
+      }
+      offset += 2 + length;
+    }
+
+    return compact(metadata);
+  }
+
+  private extractTiff(data: Buffer): FileMetadata {
+    const images = (UTIF.decode(data) as Ifd[]).filter(
+      (ifd) => ifd["t256"] !== undefined
+    );
+    if (!images.length) {
+      throw new Error("TIFF file contains no images");
+    }
+
+    const [first] = images;
+    return compact({
+      width: first["t256"][0],
+      height: first["t257"]?.[0],
+      pageCount: images.length,
+      exif: this.toExif(first),
+    });
+  }
+
+  private readExif(tiff: Buffer): ExifMetadata | undefined {
+    // A broken EXIF block should not cost us the rest of the metadata
+    try {
+      const [ifd] = UTIF.decode(tiff) as Ifd[];
+      return ifd && this.toExif(ifd);
+    } catch (error) {
+      this.logger.warn(`Failed to read EXIF data: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private toExif(ifd: Ifd): ExifMetadata | undefined {
+    const exif: Ifd = ifd.exifIFD ?? {};
+    const gps: Ifd = ifd.gpsiIFD ?? {};
+    const tag = (source: Ifd, id: number) => source[`t${id}`]?.[0];
+
+    const metadata = compact<ExifMetadata>({
+      make: this.text(tag(ifd, 271)),
+      model: this.text(tag(ifd, 272)),
+      software: this.text(tag(ifd, 305)),
+      orientation: tag(ifd, 274),
+      takenAt: this.toTimestamp(tag(exif, 36867) ?? tag(ifd, 306)),
+      exposureTime: this.rational(tag(exif, 33434)),
+      fNumber: this.rational(tag(exif, 33437)),
+      iso: tag(exif, 34855),
+      focalLength: this.rational(tag(exif, 37386)),
+      latitude: this.coordinate(gps["t2"], tag(gps, 1), "S"),
+      longitude: this.coordinate(gps["t4"], tag(gps, 3), "W"),
+    });
+    return Object.keys(metadata).length ? metadata : undefined;
+  }
+
+  private text(value: unknown): string | undefined {
+    return typeof value === "string"
+      ? value.replace(/\0+$/, "").trim() || undefined
+      : undefined;
+  }
+
+  /** EXIF timestamps look like "2024:05:01 13:45:10" and carry no zone. */
+  private toTimestamp(value: unknown): string | undefined {
+    const match = this.text(value)?.match(
+      /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}:\d{2}:\d{2})/
+    );
+    return match && `${match[1]}-${match[2]}-${match[3]}T${match[4]}`;
+  }
+
+  private rational(value: [number, number] | undefined): number | undefined {
+    return value && value[1] ? value[0] / value[1] : undefined;
+  }
+
+  /** Degrees, minutes and seconds to signed decimal degrees. */
+  private coordinate(
+    parts: [number, number][] | undefined,
+    reference: string | undefined,
+    negative: string
+  ): number | undefined {
+    if (parts?.length !== 3) {
+      return undefined;
+    }
+    const [degrees, minutes, seconds] = parts.map((part) =>
+      this.rational(part)
+    );
+    if ([degrees, minutes, seconds].some((part) => part === undefined)) {
+      return undefined;
+    }
+
+    const value = degrees + minutes / 60 + seconds / 3600;
+    const sign = this.text(reference) === negative ? -1 : 1;
+    return Math.round(sign * value * 1e6) / 1e6;
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable } from "@nestjs/common";
+import { decodeText } from "../extractors/plain-text.extractor";
+import {
+  FileMetadata,
+  MetadataExtractor,
+  compact,
+  toIsoDate,
+} from "./metadata-extractor.interface";
+
+/**
+ * Reads flat `key: value` pairs from YAML front matter, falling back to
+ * the first level-one heading for the title.
+ */
+@Injectable()
+export class MarkdownMetadataExtractor implements MetadataExtractor {
+  readonly name = "markdown";
+  readonly mimeTypes = ["text/markdown", "text/x-markdown"];
+
+  async extract(data: Buffer): Promise<FileMetadata> {
+    const markdown = decodeText(data).replace(/\r\n?/g, "\n");
+    const frontMatter = markdown.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/);
+    const fields = this.parseFrontMatter(frontMatter?.[1] ?? "");
+    const body = markdown.slice(frontMatter?.[0].length ?? 0);
+    const heading = body.match(/^\s{0,3}#\s+(.+?)\s*#*\s*$/m)?.[1];
+    const keywords = fields.get("keywords") ?? fields.get("tags");
+
+    return compact({
+      title: fields.get("title") ?? heading,
+      author: fields.get("author"),
+      description: fields.get("description") ?? fields.get("summary"),
+      fileKeywords: keywords
+        ?.replace(/^\[|\]$/g, "")
+        .split(",")
+        .map((keyword) => this.unquote(keyword))
+        .filter(Boolean),
+      declaredLanguage: fields.get("lang") ?? fields.get("language"),
+      createdAt: toIsoDate(fields.get("date")),
+      modifiedAt: toIsoDate(fields.get("updated") ?? fields.get("lastmod")),
+    });
+  }
+
+  private parseFrontMatter(yaml: string): Map<string, string> {
+    const fields = new Map<string, string>();
+
+    for (const line of yaml.split("\n")) {
+      const match = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.+)$/);
+      if (match) {
+        fields.set(match[1].toLowerCase(), this.unquote(match[2]));
+      }
+    }
+
+    return fields;
+  }
+
+  private unquote(value: string): string {
+    return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+}
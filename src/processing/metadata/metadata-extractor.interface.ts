@@ -0,0 +1,39 @@
+import {
+  DocumentProcessingJob,
+  ExtractedMetadata,
+} from "../dto/processing.dto";
+
+export type FileMetadata = Omit<
+  ExtractedMetadata,
+  "mimeType" | "wordCount" | "characterCount"
+>;
+
+export interface MetadataExtractor {
+  /** Human readable name, used in logs and error messages. */
+  readonly name: string;
+  /** MIME types this extractor is able to handle. */
+  readonly mimeTypes: string[];
+  extract(data: Buffer, job: DocumentProcessingJob): Promise<FileMetadata>;
+}
+
+/** Converts a parsed date to ISO 8601, dropping missing and invalid ones. */
+export function toIsoDate(date: Date | string | null | undefined) {
+  if (!date) {
+    return undefined;
+  }
+  const parsed = date instanceof Date ? date : new Date(date);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+/** Drops empty values so absent properties are left out of the result. */
+export function compact<T extends object>(metadata: T): T {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(
+      ([, value]) =>
+        value !== undefined &&
+        value !== null &&
+        value !== "" &&
+        !(Array.isArray(value) && value.length === 0)
+    )
+  ) as T;
+}
@@ -0,0 +1,54 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { MetadataExtractor } from "./metadata-extractor.interface";
+import { PdfMetadataExtractor } from "./pdf-metadata.extractor";
+import { DocxMetadataExtractor } from "./docx-metadata.extractor";
+import { ImageMetadataExtractor } from "./image-metadata.extractor";
+import { HtmlMetadataExtractor } from "./html-metadata.extractor";
+import { MarkdownMetadataExtractor } from "./markdown-metadata.extractor";
+import { CsvMetadataExtractor } from "./csv-metadata.extractor";
+
+/**
+ * Metadata extractors by MIME type. File types without one (plain text)
+ * only get the text statistics. MIME types are resolved through
+ * `TextExtractorRegistry.resolveMimeType`.
+ */
+@Injectable()
+export class MetadataExtractorRegistry {
+  private readonly logger = new Logger(MetadataExtractorRegistry.name);
+  private readonly extractors = new Map<string, MetadataExtractor>();
+
+  constructor(
+    pdfExtractor: PdfMetadataExtractor,
+    docxExtractor: DocxMetadataExtractor,
+    imageExtractor: ImageMetadataExtractor,
+    htmlExtractor: HtmlMetadataExtractor,
+    markdownExtractor: MarkdownMetadataExtractor,
+    csvExtractor: CsvMetadataExtractor
+  ) {
+    [
+      pdfExtractor,
+      docxExtractor,
+      imageExtractor,
+      htmlExtractor,
+      markdownExtractor,
+      csvExtractor,
+    ].forEach((extractor) => this.register(extractor));
+  }
+
+  /** Registers an extractor, replacing any earlier one for its MIME types. */
+  register(extractor: MetadataExtractor): void {
+    for (const mimeType of extractor.mimeTypes) {
+      const existing = this.extractors.get(mimeType);
+      if (existing && existing !== extractor) {
+        this.logger.log(
+          `Metadata extractor "${extractor.name}" replaces "${existing.name}" for ${mimeType}`
+        );
+      }
+      this.extractors.set(mimeType.toLowerCase(), extractor);
+    }
+  }
+
+  getExtractor(mimeType: string): MetadataExtractor | undefined {
+    return this.extractors.get(mimeType.toLowerCase());
+  }
+}
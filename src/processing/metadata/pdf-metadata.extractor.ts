@@ -0,0 +1,46 @@
+import { Injectable } from "@nestjs/common";
+import { PDFParse } from "pdf-parse";
+import {
+  FileMetadata,
+  MetadataExtractor,
+  compact,
+  toIsoDate,
+} from "./metadata-extractor.interface";
+
+@Injectable()
+export class PdfMetadataExtractor implements MetadataExtractor {
+  readonly name = "pdf";
+  readonly mimeTypes = ["application/pdf"];
+
+  async extract(data: Buffer): Promise<FileMetadata> {
+    const parser = new PDFParse({ data });
+
+    try {
+      const result = await parser.getInfo();
+      const info = result.info ?? {};
+      const dates = result.getDateNode();
+
+      return compact({
+        title:
+          this.text(info.Title) ?? this.text(result.metadata?.get("dc:title")),
+        author: this.text(info.Author),
+        subject: this.text(info.Subject),
+        fileKeywords: this.text(info.Keywords)
+          ?.split(/[,;]/)
+          .map((keyword) => keyword.trim())
+          .filter(Boolean),
+        creator: this.text(info.Creator),
+        producer: this.text(info.Producer),
+        createdAt: toIsoDate(dates.CreationDate ?? dates.XmpCreateDate),
+        modifiedAt: toIsoDate(dates.ModDate ?? dates.XmpModifyDate),
+        pageCount: result.total,
+      });
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  private text(value: unknown): string | undefined {
+    return typeof value === "string" ? value.trim() || undefined : undefined;
+  }
+}
@@ -0,0 +1,364 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { existsSync, mkdirSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join, resolve } from "path";
+import { PDFParse } from "pdf-parse";
+import { PNG } from "pngjs";
+import { createScheduler, createWorker, OEM, Scheduler } from "tesseract.js";
+import * as UTIF from "utif2";
+import { OcrPage } from "../dto/processing.dto";
+import { LanguageDetectorService } from "../language/language-detector.service";
+import { toTesseractLanguage } from "./tesseract-languages";
+import {
+  ExtractionError,
+  ExtractionErrorCode,
+} from "../errors/processing.errors";
+
+/** Detection confidence needed before OCR is repeated in the detected language. */
+const REDETECT_CONFIDENCE = 0.8;
+
+/** PDF user space is 72 units per inch; OCR_DPI is converted to a render scale. */
+const PDF_POINTS_PER_INCH = 72;
+
+/** Traineddata of the `@tesseract.js-data` packages read with `OEM.LSTM_ONLY`. */
+const PACKAGED_TESSDATA_DIR = "4.0.0_best_int";
+
+export interface OcrOptions {
+  /** Tesseract language codes, e.g. ["eng", "deu"]; detected when empty. */
+  languages?: string[];
+  /** Text already known to be in the document, used to pick languages. */
+  hintText?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs tesseract.js through a pool of workers per language combination.
+ * Workers are created on first use and kept for the lifetime of the
+ * process, since loading traineddata is the expensive part of OCR.
+ *
+ * Without explicit languages, the language of `hintText` (or else
+ * `OCR_LANGUAGE`) is used, and pages are recognized again when the OCR
+ * output turns out to be in another language.
+ *
+ * Traineddata is read from `OCR_LANG_PATH` when set, or else from the
+ * installed `@tesseract.js-data/<language>` packages, so nothing is
+ * downloaded at runtime. Startup fails when the `OCR_LANGUAGE` data is
+ * missing; a job asking for a language without data fails with
+ * `OCR_LANGUAGE_UNAVAILABLE`.
+ */
+@Injectable()
+export class OcrService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(OcrService.name);
+  private readonly schedulers = new Map<string, Promise<Scheduler>>();
+
+  private readonly workersPerLanguage: number;
+  private readonly defaultLanguages: string[];
+  private readonly langPath?: string;
+  private readonly cachePath?: string;
+  private readonly maxPages: number;
+  private readonly pdfScale: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly languageDetector: LanguageDetectorService
+  ) {
+    this.workersPerLanguage = Math.max(
+      1,
+      Number(this.configService.get("OCR_WORKERS", 2))
+    );
+    this.defaultLanguages = this.parseLanguages(
+      this.configService.get("OCR_LANGUAGE", "eng")
+    );
+    this.langPath = this.configService.get("OCR_LANG_PATH") || undefined;
+    this.cachePath = this.configService.get("OCR_CACHE_PATH") || undefined;
+    this.maxPages = Number(this.configService.get("OCR_MAX_PAGES", 50));
+    this.pdfScale =
+      Number(this.configService.get("OCR_DPI", 300)) / PDF_POINTS_PER_INCH;
+  }
+
+  onModuleInit() {
+    const missing = this.defaultLanguages.filter(
+      (language) => !this.hasLanguageData(language)
+    );
+    if (missing.length) {
+      throw new Error(this.missingDataMessage(missing));
+    }
+  }
+
+  // Not on module destroy: jobs finishing during shutdown may still need OCR
+  async onApplicationShutdown() {
+    const schedulers = await Promise.allSettled(this.schedulers.values());
+    this.schedulers.clear();
+
+    await Promise.all(
+      schedulers
+        .filter((s) => s.status === "fulfilled")
+        .map((s) => (s as PromiseFulfilledResult<Scheduler>).value.terminate())
+    );
+  }
+
+  /**
+   * Recognizes text in an image. Multi-page TIFFs are split so every page
+   * is recognized separately; other formats are passed to tesseract as-is.
+   */
+  async recognizeImage(
+    data: Buffer,
+    mimeType: string,
+    options: OcrOptions = {}
+  ): Promise<OcrPage[]> {
+    const images = mimeType === "image/tiff" ? this.splitTiff(data) : [data];
+    return this.recognizePages(images, options);
+  }
+
+  /** Renders each PDF page to an image and recognizes it. */
+  async recognizePdf(
+    data: Buffer,
+    options: OcrOptions = {}
+  ): Promise<OcrPage[]> {
+    const parser = new PDFParse({ data });
+
+    try {
+      const screenshots = await parser.getScreenshot({
+        first: this.maxPages > 0 ? this.maxPages : undefined,
+        scale: this.pdfScale,
+        imageBuffer: true,
+        imageDataUrl: false,
+      });
+
+      if (this.maxPages > 0 && screenshots.total > this.maxPages) {
+        this.logger.warn(
+          `PDF has ${screenshots.total} pages; OCR limited to the first ${this.maxPages}`
+        );
+      }
+
+      return this.recognizePages(
+        screenshots.pages.map((page) => Buffer.from(page.data)),
+        options
+      );
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  private async recognizePages(
+    images: Buffer[],
+    { languages, hintText, signal }: OcrOptions
+  ): Promise<OcrPage[]> {
+    if (languages?.length) {
+      return this.recognizeWith(images, languages, signal);
+    }
+
+    const hinted = hintText && this.detectLanguage(hintText);
+    const selected = this.withDefaults(hinted);
+    const pages = await this.recognizeWith(images, selected, signal);
+
+    const detected = this.detectLanguage(
+      pages.map((page) => page.text).join("\n")
+    );
+    if (!detected || selected.includes(detected)) {
+      return pages;
+    }
+
+    this.logger.log(`OCR output looks like ${detected}, recognizing again`);
+    const retried = await this.recognizeWith(
+      images,
+      this.withDefaults(detected),
+      signal
+    );
+    return this.meanConfidence(retried) > this.meanConfidence(pages)
+      ? retried
+      : pages;
+  }
+
+  private async recognizeWith(
+    images: Buffer[],
+    languages: string[],
+    signal?: AbortSignal
+  ): Promise<OcrPage[]> {
+    const scheduler = await this.getScheduler(languages);
+
+    // Pages are queued together so the pool's workers share them
+    const pages = await Promise.all(
+      images.map(async (image, index) => {
+        signal?.throwIfAborted();
+        const { data } = await scheduler.addJob("recognize", image);
+        return {
+          page: index + 1,
+          text: data.text.trim(),
+          confidence: Math.round(data.confidence) / 100,
+        };
+      })
+    );
+
+    signal?.throwIfAborted();
+    return pages;
+  }
+
+  /**
+   * Tesseract code of the language `text` is confidently written in, if
+   * its traineddata is installed.
+   */
+  private detectLanguage(text: string): string | undefined {
+    const [top] = this.languageDetector.detect(text);
+    const language =
+      top?.confidence >= REDETECT_CONFIDENCE
+        ? toTesseractLanguage(top.language)
+        : undefined;
+    return language && this.hasLanguageData(language) ? language : undefined;
+  }
+
+  /** The detected language first, keeping the defaults for mixed text. */
+  private withDefaults(language?: string): string[] {
+    return [...new Set([language, ...this.defaultLanguages].filter(Boolean))];
+  }
+
+  private meanConfidence(pages: OcrPage[]): number {
+    return (
+      pages.reduce((sum, page) => sum + page.confidence, 0) /
+      Math.max(1, pages.length)
+    );
+  }
+
+  private getScheduler(languages: string[]): Promise<Scheduler> {
+    const key = [...new Set(languages)].sort().join("+");
+    let scheduler = this.schedulers.get(key);
+
+    if (!scheduler) {
+      scheduler = this.createScheduler(key.split("+"));
+      // Drop failed pools so the next job retries, e.g. after a missing
+      // traineddata file has been installed
+      scheduler.catch(() => this.schedulers.delete(key));
+      this.schedulers.set(key, scheduler);
+    }
+
+    return scheduler;
+  }
+
+  private async createScheduler(languages: string[]): Promise<Scheduler> {
+    this.logger.log(
+      `Starting ${this.workersPerLanguage} OCR worker(s) for ${languages.join("+")}`
+    );
+
+    const langPath = this.resolveLangPath(languages);
+    const scheduler = createScheduler();
+    try {
+      for (let i = 0; i < this.workersPerLanguage; i++) {
+        const worker = await createWorker(languages, OEM.LSTM_ONLY, {
+          langPath,
+          cachePath: this.cachePath,
+          // Local traineddata needs no cached copy
+          cacheMethod: this.isRemoteLangPath() ? "write" : "none",
+          errorHandler: (error) =>
+            this.logger.error(`OCR worker error: ${error}`),
+        });
+        scheduler.addWorker(worker);
+      }
+    } catch (error) {
+      await scheduler.terminate();
+      throw error;
+    }
+
+    return scheduler;
+  }
+
+  /** Decodes every page of a TIFF and re-encodes it as PNG for tesseract. */
+  private splitTiff(data: Buffer): Buffer[] {
+    const ifds = UTIF.decode(data).filter((ifd) => ifd["t256"] !== undefined);
+    const pages = this.maxPages > 0 ? ifds.slice(0, this.maxPages) : ifds;
+
+    return pages.map((ifd) => {
+      UTIF.decodeImage(data, ifd);
+      const png = new PNG({ width: ifd.width, height: ifd.height });
+      png.data = Buffer.from(UTIF.toRGBA8(ifd));
+      return PNG.sync.write(png);
+    });
+  }
+
+  /**
+   * Directory (or URL) holding `<language>.traineddata.gz` for every one of
+   * `languages`. Packaged languages live in one package each, so several
+   * are linked into a directory of their own.
+   */
+  private resolveLangPath(languages: string[]): string {
+    const missing = languages.filter(
+      (language) => !this.hasLanguageData(language)
+    );
+    if (missing.length) {
+      throw new ExtractionError(
+        ExtractionErrorCode.OCR_LANGUAGE_UNAVAILABLE,
+        this.missingDataMessage(missing)
+      );
+    }
+    if (this.langPath) {
+      return this.langPath;
+    }
+
+    const dirs = languages.map((language) => packagedTessdata(language));
+    if (new Set(dirs).size === 1) {
+      return dirs[0];
+    }
+    const combined = join(tmpdir(), "tessdata", languages.join("+"));
+    mkdirSync(combined, { recursive: true });
+    languages.forEach((language, index) => {
+      const link = join(combined, traineddataFile(language));
+      if (!existsSync(link)) {
+        symlinkSync(join(dirs[index], traineddataFile(language)), link);
+      }
+    });
+    return combined;
+  }
+
+  /** Remote `OCR_LANG_PATH`s are trusted to have every language. */
+  private hasLanguageData(language: string): boolean {
+    if (this.isRemoteLangPath()) {
+      return true;
+    }
+    const dir = this.langPath
+      ? resolve(this.langPath.replace(/^file:\/\//i, ""))
+      : packagedTessdata(language);
+    return !!dir && existsSync(join(dir, traineddataFile(language)));
+  }
+
+  private isRemoteLangPath(): boolean {
+    return !!this.langPath && /^https?:\/\//i.test(this.langPath);
+  }
+
+  private missingDataMessage(languages: string[]): string {
+    const files = languages.map(traineddataFile).join(", ");
+    return this.langPath
+      ? `No OCR traineddata in OCR_LANG_PATH ${this.langPath}: ${files}`
+      : `No OCR traineddata for ${languages.join(", ")}: install ${languages
+          .map((language) => `@tesseract.js-data/${language}`)
+          .join(" ")} or set OCR_LANG_PATH`;
+  }
+
+  private parseLanguages(value: string): string[] {
+    return value
+      .split(/[+,]/)
+      .map((language) => language.trim())
+      .filter(Boolean);
+  }
+}
+
+/** File tesseract.js reads for `language`, gzipped by default. */
+function traineddataFile(language: string): string {
+  return `${language}.traineddata.gz`;
+}
+
+/** LSTM traineddata directory of the installed `@tesseract.js-data` package. */
+function packagedTessdata(language: string): string | undefined {
+  try {
+    const manifest = require.resolve(
+      `@tesseract.js-data/${language}/package.json`
+    );
+    return join(dirname(manifest), PACKAGED_TESSDATA_DIR);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,60 @@
+/** ISO 639-1 codes mapped to the tesseract traineddata that reads them. */
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: "eng",
+  de: "deu",
+  fr: "fra",
+  es: "spa",
+  it: "ita",
+  pt: "por",
+  nl: "nld",
+  sv: "swe",
+  da: "dan",
+  no: "nor",
+  fi: "fin",
+  is: "isl",
+  pl: "pol",
+  cs: "ces",
+  sk: "slk",
+  sl: "slv",
+  hr: "hrv",
+  sr: "srp",
+  hu: "hun",
+  ro: "ron",
+  bg: "bul",
+  mk: "mkd",
+  ru: "rus",
+  uk: "ukr",
+  el: "ell",
+  et: "est",
+  lv: "lav",
+  lt: "lit",
+  sq: "sqi",
+  cy: "cym",
+  la: "lat",
+  tr: "tur",
+  hi: "hin",
+  mr: "mar",
+  ne: "nep",
+  bn: "ben",
+  pa: "pan",
+  gu: "guj",
+  or: "ori",
+  ta: "tam",
+  te: "tel",
+  kn: "kan",
+  ml: "mal",
+  ur: "urd",
+  ar: "ara",
+  fa: "fas",
+  he: "heb",
+  th: "tha",
+  vi: "vie",
+  id: "ind",
+  zh: "chi_sim",
+  ja: "jpn",
+  ko: "kor",
+};
+
+export function toTesseractLanguage(language: string): string | undefined {
+  return TESSERACT_LANGUAGES[language.toLowerCase().split(/[-_]/)[0]];
+}
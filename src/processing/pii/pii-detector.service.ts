@@ -0,0 +1,74 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { DetectedEntity, EntityType } from "../dto/processing.dto";
+import { PII_RULES } from "./pii-rules";
+
+export type EntityMatch = Omit<DetectedEntity, "source">;
+
+/**
+ * Rule-based detection of personal data: regular expressions plus checksum
+ * validation where the format has one (Luhn for cards, Verhoeff for
+ * Aadhaar). Redaction masks matches character for character, so offsets
+ * stay valid in the redacted text.
+ */
+@Injectable()
+export class PiiDetectorService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /** Non-overlapping matches in `text`, in order of appearance. */
+  detect(text: string, types?: EntityType[]): EntityMatch[] {
+    const candidates: (EntityMatch & { priority: number })[] = [];
+
+    PII_RULES.forEach((rule, priority) => {
+      if (types?.length && !types.includes(rule.type)) {
+        return;
+      }
+      for (const match of text.matchAll(rule.pattern)) {
+        if (!rule.validate || rule.validate(match[0])) {
+          candidates.push({
+            type: rule.type,
+            text: match[0],
+            start: match.index,
+            end: match.index + match[0].length,
+            priority,
+          });
+        }
+      }
+    });
+
+    // Higher priority rules claim their spans first
+    const accepted: EntityMatch[] = [];
+    candidates
+      .sort((a, b) => a.priority - b.priority || a.start - b.start)
+      .forEach(({ priority, ...entity }) => {
+        const overlaps = accepted.some(
+          (other) => entity.start < other.end && other.start < entity.end
+        );
+        if (!overlaps) {
+          accepted.push(entity);
+        }
+      });
+
+    return accepted.sort((a, b) => a.start - b.start);
+  }
+
+  /** `text` with every match masked. */
+  redact(text: string, entities: EntityMatch[]): string {
+    let redacted = "";
+    let offset = 0;
+
+    for (const entity of entities) {
+      redacted += text.slice(offset, entity.start) + this.mask(entity.text);
+      offset = entity.end;
+    }
+
+    return redacted + text.slice(offset);
+  }
+
+  /** Replaces every character except whitespace with `PII_MASK_CHAR`. */
+  mask(value: string): string {
+    // A single code unit per character keeps the length, and the offsets
+    const maskChar = this.configService.get("PII_MASK_CHAR", "*").charAt(0);
+    return value.replace(/\S/g, maskChar || "*");
+  }
+}
@@ -0,0 +1,55 @@
+import { ConfigService } from "@nestjs/config";
+import { EntityType } from "../dto/processing.dto";
+import { isValidLuhn, isValidVerhoeff } from "./pii-rules";
+import { PiiDetectorService } from "./pii-detector.service";
+
+describe("isValidLuhn", () => {
+  it("accepts card numbers with a valid check digit", () => {
+    expect(isValidLuhn("4111111111111111")).toBe(true);
+    expect(isValidLuhn("5500 0000 0000 0004")).toBe(true);
+    expect(isValidLuhn("3782-822463-10005")).toBe(true);
+  });
+
+  it("rejects a wrong check digit", () => {
+    expect(isValidLuhn("4111111111111112")).toBe(false);
+    expect(isValidLuhn("5500 0000 0000 0005")).toBe(false);
+  });
+});
+
+describe("isValidVerhoeff", () => {
+  it("accepts numbers with a valid check digit", () => {
+    expect(isValidVerhoeff("2363")).toBe(true);
+    expect(isValidVerhoeff("2345 6789 0124")).toBe(true);
+  });
+
+  it("rejects a wrong check digit and swapped digits", () => {
+    expect(isValidVerhoeff("2364")).toBe(false);
+    expect(isValidVerhoeff("2345 6789 0125")).toBe(false);
+    expect(isValidVerhoeff("3245 6789 0124")).toBe(false);
+  });
+});
+
+describe("PiiDetectorService", () => {
+  const detector = new PiiDetectorService(new ConfigService({}));
+
+  it("only reports card numbers and Aadhaar numbers that pass their checksum", () => {
+    const text =
+      "Card 4111 1111 1111 1111, not 4111 1111 1111 1112. Aadhaar 2345 6789 0124, not 2345 6789 0125.";
+    const types = detector.detect(text).map((entity) => entity.type);
+
+    expect(
+      types.filter((type) => type === EntityType.CARD_NUMBER)
+    ).toHaveLength(1);
+    expect(types.filter((type) => type === EntityType.AADHAAR)).toHaveLength(1);
+  });
+
+  it("masks matches without moving the rest of the text", () => {
+    const text = "Mail jane@example.com today";
+    const matches = detector.detect(text, [EntityType.EMAIL]);
+    const redacted = detector.redact(text, matches);
+
+    expect(redacted).toHaveLength(text.length);
+    expect(redacted).not.toContain("jane@example.com");
+    expect(redacted.slice(-6)).toBe(" today");
+  });
+});
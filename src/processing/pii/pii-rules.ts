@@ -0,0 +1,110 @@
+import { EntityType } from "../dto/processing.dto";
+
+export interface PiiRule {
+  type: EntityType;
+  /** Global pattern finding candidates. */
+  pattern: RegExp;
+  /** Rejects candidates that only look right, e.g. failing a checksum. */
+  validate?(match: string): boolean;
+}
+
+/** Verhoeff dihedral group multiplication table. */
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+/** Verhoeff position permutation table. */
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function digitsOf(value: string): number[] {
+  return [...value.replace(/\D/g, "")].map(Number);
+}
+
+/** Aadhaar numbers end in a Verhoeff check digit. */
+export function isValidVerhoeff(value: string): boolean {
+  const check = digitsOf(value)
+    .reverse()
+    .reduce(
+      (checksum, digit, index) =>
+        VERHOEFF_D[checksum][VERHOEFF_P[index % 8][digit]],
+      0
+    );
+  return check === 0;
+}
+
+/** Payment card numbers end in a Luhn check digit. */
+export function isValidLuhn(value: string): boolean {
+  const sum = digitsOf(value)
+    .reverse()
+    .reduce((total, digit, index) => {
+      if (index % 2 === 0) {
+        return total + digit;
+      }
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+  return sum % 10 === 0;
+}
+
+function isPlausiblePhone(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  if (digits.length < 10 || digits.length > 15) {
+    return false;
+  }
+  // A bare run of digits is only taken for an Indian mobile or trunk number
+  if (/^\d+$/.test(match)) {
+    return /^[6-9]\d{9}$/.test(digits) || /^0\d{10}$/.test(digits);
+  }
+  return true;
+}
+
+/**
+ * Rules in priority order: where matches overlap, the earlier rule wins
+ * (a card number is not also reported as a phone number).
+ */
+export const PII_RULES: PiiRule[] = [
+  {
+    type: EntityType.EMAIL,
+    pattern:
+      /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+  },
+  {
+    type: EntityType.CARD_NUMBER,
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    validate: isValidLuhn,
+  },
+  {
+    type: EntityType.AADHAAR,
+    pattern: /(?<!\d)[2-9]\d{3}([ -]?)\d{4}\1\d{4}(?!\d)/g,
+    validate: isValidVerhoeff,
+  },
+  {
+    // Fourth letter is the holder type (P person, C company, ...)
+    type: EntityType.PAN,
+    pattern: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g,
+  },
+  {
+    type: EntityType.PHONE,
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,5}\)[ .-]?)?\d{2,5}(?:[ .-]?\d{2,5}){0,4}(?!\w)/g,
+    validate: isPlausiblePhone,
+  },
+];
@@ -0,0 +1,72 @@
+import { Job } from "bull";
+import {
+  DocumentProcessingJob,
+  ProcessingConfig,
+  ProcessingResult,
+} from "../dto/processing.dto";
+
+export interface PipelineContext {
+  job: DocumentProcessingJob;
+  bullJob?: Job<DocumentProcessingJob>;
+  /** Result being built; steps write their outputs straight into it. */
+  result: ProcessingResult;
+  /**
+   * File contents read, hashed and scanned by intake. Steps read these
+   * rather than storage, which may have changed since.
+   */
+  data: Buffer;
+  /**
+   * Aborted when the current attempt times out or the job is requeued on
+   * shutdown; long-running steps should stop.
+   */
+  signal?: AbortSignal;
+}
+
+export interface ProcessingStep {
+  /** Unique step name, referenced by `dependsOn` and `ProcessingConfig.steps`. */
+  readonly name: string;
+  /** Progress message reported while the step runs. */
+  readonly description: string;
+  /**
+   * Steps that must run before this one when both are selected. A
+   * dependency that is not selected for a job is not pulled in.
+   */
+  readonly dependsOn?: string[];
+  /** Relative cost of the step, used to spread progress over 0-100%. */
+  readonly weight: number;
+  /** Per-attempt timeout, overriding `PROCESSING_STEP_TIMEOUT`. */
+  readonly timeoutMs?: number;
+  /** Retries after a failed attempt, overriding `PROCESSING_STEP_RETRIES`. */
+  readonly retries?: number;
+  /** Lets identical files reuse the step's outputs; see `StepCachePolicy`. */
+  readonly cache?: StepCachePolicy;
+  isEnabled(config: ProcessingConfig): boolean;
+  run(context: PipelineContext): Promise<void>;
+}
+
+/**
+ * Declares a step's outputs as a pure function of the file contents (plus
+ * `variant`), so they can be cached by content hash and reused for
+ * identical files uploaded again, e.g. by another user.
+ */
+export interface StepCachePolicy {
+  /** Bump whenever the step would produce different output for the same file. */
+  version: number;
+  /** Result fields the step writes; these are what gets cached. */
+  outputs: readonly (keyof ProcessingResult)[];
+  /** Other inputs the outputs depend on, such as config options. */
+  variant?(context: PipelineContext): string;
+  /**
+   * Outputs are document text as extracted, which jobs redacting personal
+   * data never write to the cache.
+   */
+  holdsText?: boolean;
+}
+
+export interface PlannedStep {
+  step: ProcessingStep;
+  /** Progress percentage reported when the step starts. */
+  progressStart: number;
+  /** Progress percentage reached once the step is done. */
+  progressEnd: number;
+}
@@ -0,0 +1,147 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ProcessingConfig } from "../dto/processing.dto";
+import { PlannedStep, ProcessingStep } from "./processing-step.interface";
+import { ExtractTextStep } from "./steps/extract-text.step";
+import { OcrStep } from "./steps/ocr.step";
+import { KeywordsStep } from "./steps/keywords.step";
+import { SummaryStep } from "./steps/summary.step";
+import { LanguageStep } from "./steps/language.step";
+import { SearchIndexStep } from "./steps/search-index.step";
+import { ExtractMetadataStep } from "./steps/extract-metadata.step";
+import { PiiStep } from "./steps/pii.step";
+
+/**
+ * Holds every processing step known to the service. Other Nest modules can
+ * contribute steps by injecting the registry and calling `register` from
+ * `onModuleInit`.
+ */
+@Injectable()
+export class ProcessingStepRegistry {
+  private readonly logger = new Logger(ProcessingStepRegistry.name);
+  private readonly steps = new Map<string, ProcessingStep>();
+
+  constructor(
+    extractTextStep: ExtractTextStep,
+    ocrStep: OcrStep,
+    keywordsStep: KeywordsStep,
+    summaryStep: SummaryStep,
+    languageStep: LanguageStep,
+    searchIndexStep: SearchIndexStep,
+    extractMetadataStep: ExtractMetadataStep,
+    piiStep: PiiStep
+  ) {
+    [
+      extractTextStep,
+      ocrStep,
+      keywordsStep,
+      summaryStep,
+      languageStep,
+      searchIndexStep,
+      extractMetadataStep,
+      piiStep,
+    ].forEach((step) => this.register(step));
+  }
+
+  register(step: ProcessingStep): void {
+    if (!(step.weight > 0)) {
+      throw new Error(`Step "${step.name}" must have a positive weight`);
+    }
+    if (this.steps.has(step.name)) {
+      this.logger.log(`Step "${step.name}" has been replaced`);
+    }
+    this.steps.set(step.name, step);
+  }
+
+  get(name: string): ProcessingStep | undefined {
+    return this.steps.get(name);
+  }
+
+  getAll(): ProcessingStep[] {
+    return [...this.steps.values()];
+  }
+
+  /**
+   * Selects the steps enabled by `config`, orders them so every step runs
+   * after its selected dependencies and assigns each a progress range
+   * proportional to its weight.
+   */
+  plan(config: ProcessingConfig): PlannedStep[] {
+    const extraSteps = new Set(config.steps ?? []);
+    for (const name of extraSteps) {
+      if (!this.steps.has(name)) {
+        throw new Error(`Unknown processing step "${name}"`);
+      }
+    }
+
+    const selected = this.getAll().filter(
+      (step) => step.isEnabled(config) || extraSteps.has(step.name)
+    );
+    return this.assignProgress(this.sort(selected));
+  }
+
+  /**
+   * Plans exactly the named steps, as when reprocessing a stored result.
+   * Dependencies are not pulled in: their outputs come from that result.
+   */
+  planSteps(names: string[]): PlannedStep[] {
+    for (const name of names) {
+      if (!this.steps.has(name)) {
+        throw new Error(`Unknown processing step "${name}"`);
+      }
+    }
+
+    const selected = this.getAll().filter((step) => names.includes(step.name));
+    return this.assignProgress(this.sort(selected));
+  }
+
+  private assignProgress(ordered: ProcessingStep[]): PlannedStep[] {
+    const totalWeight = ordered.reduce((sum, step) => sum + step.weight, 0);
+
+    let completedWeight = 0;
+    return ordered.map((step) => {
+      const progressStart = Math.round((completedWeight / totalWeight) * 100);
+      completedWeight += step.weight;
+      return {
+        step,
+        progressStart,
+        progressEnd: Math.round((completedWeight / totalWeight) * 100),
+      };
+    });
+  }
+
+  /** Depth-first topological sort that keeps registration order for ties. */
+  private sort(selected: ProcessingStep[]): ProcessingStep[] {
+    const byName = new Map(selected.map((step) => [step.name, step]));
+    const ordered: ProcessingStep[] = [];
+    const state = new Map<string, "visiting" | "done">();
+
+    const visit = (step: ProcessingStep, path: string[]) => {
+      if (state.get(step.name) === "done") {
+        return;
+      }
+      if (state.get(step.name) === "visiting") {
+        throw new Error(
+          `Circular step dependency: ${[...path, step.name].join(" -> ")}`
+        );
+      }
+
+      state.set(step.name, "visiting");
+      for (const dependency of step.dependsOn ?? []) {
+        if (!this.steps.has(dependency)) {
+          throw new Error(
+            `Step "${step.name}" depends on unknown step "${dependency}"`
+          );
+        }
+        const selectedDependency = byName.get(dependency);
+        if (selectedDependency) {
+          visit(selectedDependency, [...path, step.name]);
+        }
+      }
+      state.set(step.name, "done");
+      ordered.push(step);
+    };
+
+    selected.forEach((step) => visit(step, []));
+    return ordered;
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { StepResult, StepStatus } from "../dto/processing.dto";
+import {
+  StepTimeoutError,
+  isTransientError,
+  toProcessingError,
+} from "../errors/processing.errors";
+import { PipelineContext, ProcessingStep } from "./processing-step.interface";
+import { delay } from "../../common/utils/delay";
+
+export interface StepPolicy {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+}
+
+/**
+ * Runs a single step under its timeout and retry policy. Failures are
+ * recorded in the returned `StepResult` rather than thrown, so the pipeline
+ * can carry on with the remaining steps. Only a successful attempt's
+ * outputs reach the result.
+ */
+@Injectable()
+export class StepRunner {
+  private readonly logger = new Logger(StepRunner.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Resolves the policy for a step. `PROCESSING_STEP_<NAME>_TIMEOUT` and
+   * `PROCESSING_STEP_<NAME>_RETRIES` (e.g. `PROCESSING_STEP_OCR_TIMEOUT`)
+   * win over the step's own defaults, which win over the global settings.
+   */
+  getPolicy(step: ProcessingStep): StepPolicy {
+    const prefix = `PROCESSING_STEP_${step.name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+
+    return {
+      timeoutMs: Number(
+        this.configService.get(
+          `${prefix}_TIMEOUT`,
+          step.timeoutMs ??
+            this.configService.get("PROCESSING_STEP_TIMEOUT", 60000)
+        )
+      ),
+      retries: Number(
+        this.configService.get(
+          `${prefix}_RETRIES`,
+          step.retries ?? this.configService.get("PROCESSING_STEP_RETRIES", 0)
+        )
+      ),
+      retryDelayMs: Number(
+        this.configService.get("PROCESSING_STEP_RETRY_DELAY", 1000)
+      ),
+    };
+  }
+
+  async run(
+    step: ProcessingStep,
+    context: PipelineContext
+  ): Promise<StepResult> {
+    const policy = this.getPolicy(step);
+    const startedAt = new Date();
+    let attempts = 0;
+    let lastError: any;
+
+    while (attempts <= policy.retries) {
+      attempts++;
+
+      try {
+        await this.runAttempt(step, context, policy.timeoutMs);
+        return {
+          step: step.name,
+          status: StepStatus.COMPLETED,
+          attempts,
+          durationMs: Date.now() - startedAt.getTime(),
+          startedAt,
+        };
+      } catch (error) {
+        lastError = error;
+        this.logger.warn(
+          `Step ${step.name} attempt ${attempts}/${policy.retries + 1} failed for document ${context.job.documentId}: ${error.message}`
+        );
+
+        // Permanent failures (a corrupt file) fail the same way every time
+        if (!isTransientError(error)) {
+          break;
+        }
+        if (attempts <= policy.retries) {
+          await delay(policy.retryDelayMs * 2 ** (attempts - 1));
+        }
+      }
+    }
+
+    return {
+      step: step.name,
+      status:
+        lastError instanceof StepTimeoutError
+          ? StepStatus.TIMED_OUT
+          : StepStatus.FAILED,
+      attempts,
+      durationMs: Date.now() - startedAt.getTime(),
+      startedAt,
+      error: toProcessingError(lastError, step.name),
+    };
+  }
+
+  private async runAttempt(
+    step: ProcessingStep,
+    context: PipelineContext,
+    timeoutMs: number
+  ): Promise<void> {
+    // A timed-out attempt keeps running until it notices the abort, so it
+    // writes into a copy that only replaces the result once it succeeded
+    const scratch = structuredClone(context.result);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timer: NodeJS.Timeout;
+    // The job's own signal, aborted when it is requeued on shutdown
+    context.signal?.addEventListener("abort", abort, { once: true });
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new StepTimeoutError(step.name, timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      await Promise.race([
+        step.run({ ...context, result: scratch, signal: controller.signal }),
+        timeout,
+      ]);
+      Object.assign(context.result, scratch);
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener("abort", abort);
+    }
+  }
+}
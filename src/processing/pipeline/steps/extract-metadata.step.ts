@@ -0,0 +1,69 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ExtractedMetadata, ProcessingConfig } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { TextExtractorRegistry } from "../../extractors/text-extractor.registry";
+import { MetadataExtractorRegistry } from "../../metadata/metadata-extractor.registry";
+import { compact } from "../../metadata/metadata-extractor.interface";
+import { getDocumentText, tokenize } from "../../text/tokenizer";
+import {
+  ExtractionError,
+  ExtractionErrorCode,
+} from "../../errors/processing.errors";
+
+@Injectable()
+export class ExtractMetadataStep implements ProcessingStep {
+  private readonly logger = new Logger(ExtractMetadataStep.name);
+
+  readonly name = "extract-metadata";
+  readonly description = "Extracting metadata...";
+  // Word counts need the text, when text extraction or OCR is selected
+  readonly dependsOn = ["extract-text", "ocr"];
+  readonly weight = 1;
+
+  constructor(
+    private readonly textExtractorRegistry: TextExtractorRegistry,
+    private readonly metadataExtractorRegistry: MetadataExtractorRegistry
+  ) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.extractMetadata !== false;
+  }
+
+  async run({ job, result, data, signal }: PipelineContext): Promise<void> {
+    const mimeType = this.textExtractorRegistry.resolveMimeType(
+      job.fileType,
+      job.fileName
+    );
+    const extractor =
+      mimeType && this.metadataExtractorRegistry.getExtractor(mimeType);
+
+    let fileMetadata = {};
+    if (extractor) {
+      try {
+        fileMetadata = await extractor.extract(data, job);
+      } catch (error) {
+        throw new ExtractionError(
+          ExtractionErrorCode.EXTRACTION_FAILED,
+          `${extractor.name} metadata extractor failed for ${job.fileName}: ${error.message}`,
+          error
+        );
+      }
+    }
+    signal?.throwIfAborted();
+
+    const text = getDocumentText(result);
+    const metadata: Partial<ExtractedMetadata> = compact({
+      mimeType,
+      ...(text && {
+        wordCount: tokenize(text).length,
+        characterCount: text.length,
+      }),
+      ...fileMetadata,
+    });
+
+    this.logger.log(
+      `Extracted ${Object.keys(metadata).length} metadata field(s) from ${job.fileName}`
+    );
+    result.metadata = { ...result.metadata, ...metadata };
+  }
+}
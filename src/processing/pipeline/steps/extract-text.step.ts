@@ -0,0 +1,104 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ProcessingConfig } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { MetricsService } from "../../../metrics/metrics.service";
+import { TextExtractorRegistry } from "../../extractors/text-extractor.registry";
+import { OcrService } from "../../ocr/ocr.service";
+import { WorkerPoolService } from "../../workers/worker-pool.service";
+import { canExtractInThread } from "../../workers/cpu-tasks";
+import {
+  ExtractionError,
+  ExtractionErrorCode,
+} from "../../errors/processing.errors";
+
+@Injectable()
+export class ExtractTextStep implements ProcessingStep {
+  private readonly logger = new Logger(ExtractTextStep.name);
+
+  readonly name = "extract-text";
+  readonly description = "Extracting text...";
+  readonly weight = 2;
+  readonly cache = {
+    version: 1,
+    outputs: ["extractedText", "ocrPages"] as const,
+    holdsText: true,
+    // Only matters for the scanned PDF fallback
+    variant: ({ job }: PipelineContext) =>
+      (job.config.ocrLanguages ?? []).join("+"),
+  };
+
+  constructor(
+    private readonly extractorRegistry: TextExtractorRegistry,
+    private readonly ocrService: OcrService,
+    private readonly workerPool: WorkerPoolService,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService
+  ) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.extractText;
+  }
+
+  async run({ job, result, data, signal }: PipelineContext): Promise<void> {
+    const mimeType = this.extractorRegistry.resolveMimeType(
+      job.fileType,
+      job.fileName
+    );
+    const extractor = mimeType && this.extractorRegistry.getExtractor(mimeType);
+
+    if (!extractor) {
+      throw new ExtractionError(
+        ExtractionErrorCode.UNSUPPORTED_FILE_TYPE,
+        `No text extractor registered for file type "${job.fileType}"`
+      );
+    }
+
+    this.metrics.recordBytesProcessed("extraction", job.fileType, data.length);
+
+    let text: string;
+    try {
+      const content = canExtractInThread(extractor)
+        ? await this.workerPool.run(
+            "extract-text",
+            { extractor: extractor.name, data, job },
+            signal
+          )
+        : await extractor.extract(data, job);
+      this.logger.log(
+        `Extracted ${content.text.length} characters from ${job.fileName} using ${extractor.name} extractor`
+      );
+      text = content.text;
+    } catch (error) {
+      throw new ExtractionError(
+        ExtractionErrorCode.EXTRACTION_FAILED,
+        `${extractor.name} extractor failed for ${job.fileName}: ${error.message}`,
+        error
+      );
+    }
+
+    // Scanned PDFs have no text layer; recognize the rendered pages instead
+    const ocrFallback =
+      !text && mimeType === "application/pdf" && this.isPdfFallbackEnabled();
+    if (ocrFallback) {
+      this.logger.log(`No text layer in ${job.fileName}, falling back to OCR`);
+      this.metrics.recordBytesProcessed("ocr", job.fileType, data.length);
+
+      result.ocrPages = await this.ocrService.recognizePdf(data, {
+        languages: job.config.ocrLanguages,
+        signal,
+      });
+      text = result.ocrPages
+        .map((page) => page.text)
+        .filter(Boolean)
+        .join("\n\n");
+    }
+
+    result.metadata = { ...result.metadata, ocrFallback };
+    result.extractedText = text;
+  }
+
+  private isPdfFallbackEnabled(): boolean {
+    return this.configService.get("OCR_PDF_FALLBACK", "true") !== "false";
+  }
+}
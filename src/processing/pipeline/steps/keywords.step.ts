@@ -0,0 +1,56 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ProcessingConfig, ProcessingResult } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { KeywordExtractorService } from "../../keywords/keyword-extractor.service";
+import { getDocumentLanguage, getDocumentText } from "../../text/tokenizer";
+
+@Injectable()
+export class KeywordsStep implements ProcessingStep {
+  readonly name = "keywords";
+  readonly description = "Extracting keywords...";
+  // Runs after language detection when both are selected, for its stopwords
+  readonly dependsOn = ["extract-text", "ocr", "detect-pii", "language"];
+  readonly weight = 1;
+  // Not cached: scores depend on the corpus statistics at the time, and
+  // every run has to add the document to them
+
+  constructor(
+    private readonly keywordExtractor: KeywordExtractorService,
+    private readonly configService: ConfigService
+  ) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.extractKeywords;
+  }
+
+  async run({ job, result, signal }: PipelineContext): Promise<void> {
+    const text = getDocumentText(result);
+    if (!text) {
+      result.keywords = [];
+      result.scoredKeywords = [];
+      return;
+    }
+
+    // Extracting adds the document to the corpus statistics
+    signal?.throwIfAborted();
+    const scored = await this.keywordExtractor.extract(job.documentId, text, {
+      language: this.getLanguage(result),
+      limit: this.limit,
+    });
+
+    result.keywords = scored.map((keyword) => keyword.keyword);
+    result.scoredKeywords = scored;
+  }
+
+  private get limit(): number {
+    return Number(this.configService.get("KEYWORDS_LIMIT", 10));
+  }
+
+  private getLanguage(result: ProcessingResult): string {
+    return (
+      getDocumentLanguage(result) ??
+      this.configService.get("KEYWORDS_DEFAULT_LANGUAGE", "en")
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import { ProcessingConfig } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { WorkerPoolService } from "../../workers/worker-pool.service";
+import { getDocumentText } from "../../text/tokenizer";
+
+@Injectable()
+export class LanguageStep implements ProcessingStep {
+  readonly name = "language";
+  readonly description = "Detecting language...";
+  readonly dependsOn = ["extract-text", "ocr", "detect-pii"];
+  readonly weight = 1;
+  readonly cache = {
+    version: 1,
+    outputs: ["language", "languages", "languageSections"] as const,
+    // The text depends on more than the file: whether it came from OCR,
+    // the OCR languages and PII redaction
+    variant: ({ result }: PipelineContext) =>
+      `${this.sectionSize}:${createHash("sha256")
+        .update(getDocumentText(result))
+        .digest("hex")}`,
+  };
+
+  constructor(
+    private readonly workerPool: WorkerPoolService,
+    private readonly configService: ConfigService
+  ) {}
+
+  private get sectionSize(): number {
+    return Number(this.configService.get("LANGUAGE_SECTION_SIZE", 1000));
+  }
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.detectLanguage;
+  }
+
+  async run({ result, signal }: PipelineContext): Promise<void> {
+    const { languages, sections } = await this.workerPool.run(
+      "detect-language-sections",
+      { text: getDocumentText(result), sectionSize: this.sectionSize },
+      signal
+    );
+
+    result.language = languages[0]?.language ?? "unknown";
+    result.languages = languages;
+    result.languageSections = sections;
+  }
+}
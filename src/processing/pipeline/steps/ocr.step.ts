@@ -0,0 +1,96 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ProcessingConfig, StepStatus } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { MetricsService } from "../../../metrics/metrics.service";
+import { TextExtractorRegistry } from "../../extractors/text-extractor.registry";
+import { OcrService } from "../../ocr/ocr.service";
+
+const OCR_IMAGE_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/tiff",
+  "image/bmp",
+];
+
+@Injectable()
+export class OcrStep implements ProcessingStep {
+  private readonly logger = new Logger(OcrStep.name);
+
+  readonly name = "ocr";
+  readonly description = "Performing OCR...";
+  readonly dependsOn = ["extract-text"];
+  readonly weight = 4;
+  readonly timeoutMs = 300000;
+  readonly cache = {
+    version: 1,
+    outputs: ["ocrText", "ocrPages"] as const,
+    holdsText: true,
+    variant: ({ job }: PipelineContext) =>
+      (job.config.ocrLanguages ?? []).join("+"),
+  };
+
+  constructor(
+    private readonly extractorRegistry: TextExtractorRegistry,
+    private readonly ocrService: OcrService,
+    private readonly metrics: MetricsService
+  ) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.performOCR;
+  }
+
+  async run({ job, result, data, signal }: PipelineContext): Promise<void> {
+    // extract-text already ran OCR as the fallback for a scanned PDF. The
+    // flag may be carried over from a stored result when reprocessing, so
+    // it only counts if extract-text ran in this run. Its cached outputs
+    // lack the flag, but only include `ocrPages` after the fallback.
+    const extractText = result.steps?.find(
+      (step) =>
+        step.step === "extract-text" && step.status === StepStatus.COMPLETED
+    );
+    const ocrFallback = extractText?.cached
+      ? !!result.ocrPages
+      : !!extractText && !!result.metadata?.ocrFallback;
+    if (ocrFallback) {
+      result.ocrText = this.joinPages(result.ocrPages);
+      return;
+    }
+
+    const mimeType = this.extractorRegistry.resolveMimeType(
+      job.fileType,
+      job.fileName
+    );
+    const isImage = !!mimeType && OCR_IMAGE_MIME_TYPES.includes(mimeType);
+
+    if (!isImage && mimeType !== "application/pdf") {
+      this.logger.log(
+        `OCR not applicable for ${job.fileName} (file type: ${job.fileType})`
+      );
+      return;
+    }
+
+    this.metrics.recordBytesProcessed("ocr", job.fileType, data.length);
+
+    const options = {
+      languages: job.config.ocrLanguages,
+      hintText: result.extractedText,
+      signal,
+    };
+    const pages = isImage
+      ? await this.ocrService.recognizeImage(data, mimeType, options)
+      : await this.ocrService.recognizePdf(data, options);
+
+    this.logger.log(
+      `Recognized ${pages.length} page(s) of ${job.fileName} with OCR`
+    );
+    result.ocrPages = pages;
+    result.ocrText = this.joinPages(pages);
+  }
+
+  private joinPages(pages: { text: string }[]): string {
+    return pages
+      .map((page) => page.text)
+      .filter(Boolean)
+      .join("\n\n");
+  }
+}
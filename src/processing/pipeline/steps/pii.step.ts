@@ -0,0 +1,98 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  DetectedEntity,
+  EntityType,
+  ProcessingConfig,
+} from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { PiiDetectorService } from "../../pii/pii-detector.service";
+
+const TEXT_FIELDS = ["extractedText", "ocrText"] as const;
+
+/**
+ * Finds personal data in the extracted and OCR text. With `redactPii` the
+ * text is masked in place, so the steps that depend on this one, the search
+ * index, the result store and the callback only ever see the redacted text.
+ * String metadata fields, such as the author, are masked as well.
+ */
+@Injectable()
+export class PiiStep implements ProcessingStep {
+  private readonly logger = new Logger(PiiStep.name);
+
+  readonly name = "detect-pii";
+  readonly description = "Detecting personal data...";
+  // Metadata first, so its fields are redacted too
+  readonly dependsOn = ["extract-text", "ocr", "extract-metadata"];
+  readonly weight = 1;
+
+  constructor(private readonly piiDetector: PiiDetectorService) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return !!(config.detectPii || config.redactPii);
+  }
+
+  async run({ job, result }: PipelineContext): Promise<void> {
+    const { piiTypes, redactPii } = job.config;
+    const entities: DetectedEntity[] = [];
+
+    for (const source of TEXT_FIELDS) {
+      const text = result[source];
+      if (!text) {
+        continue;
+      }
+
+      const matches = this.piiDetector.detect(text, piiTypes);
+      if (redactPii) {
+        result[source] = this.piiDetector.redact(text, matches);
+      }
+      entities.push(
+        ...matches.map((entity) => ({
+          ...entity,
+          text: redactPii ? this.piiDetector.mask(entity.text) : entity.text,
+          source,
+        }))
+      );
+    }
+
+    if (redactPii) {
+      result.ocrPages = result.ocrPages?.map((page) => ({
+        ...page,
+        text: this.piiDetector.redact(
+          page.text,
+          this.piiDetector.detect(page.text, piiTypes)
+        ),
+      }));
+      result.metadata = {
+        ...this.redactValue(result.metadata ?? {}, piiTypes),
+        piiRedacted: true,
+      };
+    }
+
+    this.logger.log(
+      `Found ${entities.length} personal data entities in ${job.fileName}${redactPii ? " (redacted)" : ""}`
+    );
+    result.entities = entities;
+  }
+
+  /** Masks personal data in every string of `value`, arrays and objects included. */
+  private redactValue(value: any, types?: EntityType[]): any {
+    if (typeof value === "string") {
+      return this.piiDetector.redact(
+        value,
+        this.piiDetector.detect(value, types)
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, types));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.redactValue(item, types),
+        ])
+      );
+    }
+    return value;
+  }
+}
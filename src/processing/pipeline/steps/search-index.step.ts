@@ -0,0 +1,71 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ProcessingConfig } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { SearchIndexService } from "../../../search/search-index.service";
+import { SearchPassage } from "../../../search/indexers/search-indexer.interface";
+import { chunkText } from "../../text/chunker";
+import { getDocumentLanguage, getDocumentText } from "../../text/tokenizer";
+
+@Injectable()
+export class SearchIndexStep implements ProcessingStep {
+  private readonly logger = new Logger(SearchIndexStep.name);
+
+  readonly name = "search-index";
+  readonly description = "Indexing for search...";
+  readonly dependsOn = [
+    "extract-text",
+    "ocr",
+    "detect-pii",
+    "keywords",
+    "summary",
+    "language",
+  ];
+  readonly weight = 1;
+
+  constructor(
+    private readonly searchIndex: SearchIndexService,
+    private readonly configService: ConfigService
+  ) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.enableSearch;
+  }
+
+  async run({ job, result, signal }: PipelineContext): Promise<void> {
+    const chunks = chunkText(
+      getDocumentText(result),
+      Number(this.configService.get("SEARCH_CHUNK_SIZE", 1000)),
+      Number(this.configService.get("SEARCH_CHUNK_OVERLAP", 200))
+    );
+    const indexedAt = new Date().toISOString();
+
+    const passages: SearchPassage[] = chunks.map((chunk, passageIndex) => ({
+      documentId: job.documentId,
+      userId: job.userId,
+      passageIndex,
+      passageCount: chunks.length,
+      text: chunk.text,
+      start: chunk.start,
+      end: chunk.end,
+      fileName: job.fileName,
+      fileType: job.fileType,
+      title: job.metadata?.title,
+      category: job.metadata?.category,
+      tags: job.metadata?.tags,
+      language: getDocumentLanguage(result),
+      keywords: result.keywords,
+      summary: result.summary,
+      indexedAt,
+    }));
+
+    // Replaces the passages of any earlier run, so reprocessing reindexes
+    signal?.throwIfAborted();
+    await this.searchIndex.indexDocument(job.documentId, passages);
+
+    this.logger.log(
+      `Indexed ${passages.length} passage(s) of document ${job.documentId} for search`
+    );
+    result.metadata = { ...result.metadata, searchPassages: passages.length };
+  }
+}
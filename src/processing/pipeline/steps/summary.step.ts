@@ -0,0 +1,45 @@
+import { Injectable } from "@nestjs/common";
+import { ProcessingConfig } from "../../dto/processing.dto";
+import { PipelineContext, ProcessingStep } from "../processing-step.interface";
+import { SummarizationService } from "../../summarization/summarization.service";
+import { getDocumentLanguage, getDocumentText } from "../../text/tokenizer";
+
+@Injectable()
+export class SummaryStep implements ProcessingStep {
+  readonly name = "summary";
+  readonly description = "Generating summary...";
+  readonly dependsOn = ["extract-text", "ocr", "detect-pii", "language"];
+  readonly weight = 2;
+
+  constructor(private readonly summarization: SummarizationService) {}
+
+  isEnabled(config: ProcessingConfig): boolean {
+    return config.generateSummary;
+  }
+
+  async run({ job, result, signal }: PipelineContext): Promise<void> {
+    const text = getDocumentText(result);
+    if (!text) {
+      result.summary = "";
+      return;
+    }
+
+    const outcome = await this.summarization.summarize(text, {
+      method: job.config.summaryMethod,
+      sentences: job.config.summarySentences,
+      ratio: job.config.summaryRatio,
+      language: getDocumentLanguage(result),
+      signal,
+    });
+
+    result.summary = outcome.summary;
+    result.metadata = {
+      ...result.metadata,
+      summaryMethod: outcome.method,
+      ...(outcome.model && { summaryModel: outcome.model }),
+      ...(outcome.fallbackReason && {
+        summaryFallbackReason: outcome.fallbackReason,
+      }),
+    };
+  }
+}
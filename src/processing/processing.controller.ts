@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { ProcessingJobsService } from "./services/processing-jobs.service";
+import {
+  CreateProcessingJobDto,
+  ListProcessingJobsQueryDto,
+} from "./dto/processing-job.dto";
+import {
+  CallerId,
+  ServiceTokenGuard,
+} from "../common/guards/service-token.guard";
+
+@Controller("processing/jobs")
+@UseGuards(ServiceTokenGuard)
+export class ProcessingController {
+  constructor(private readonly processingJobs: ProcessingJobsService) {}
+
+  @Post()
+  async submitJob(
+    @Body() dto: CreateProcessingJobDto,
+    @CallerId() callerId: string
+  ) {
+    if (dto.userId !== callerId) {
+      throw new ForbiddenException("userId must be the calling user");
+    }
+    const progress = await this.processingJobs.submit(dto);
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+
+  @Get()
+  async listJobs(
+    @Query() query: ListProcessingJobsQueryDto,
+    @CallerId() callerId: string
+  ) {
+    const jobs = await this.processingJobs.list(
+      query.status,
+      query.offset,
+      query.limit,
+      callerId
+    );
+    return {
+      success: true,
+      data: jobs,
+    };
+  }
+
+  @Get(":jobId")
+  async getJob(@Param("jobId") jobId: string, @CallerId() callerId: string) {
+    const progress = await this.processingJobs.getProgress(jobId, callerId);
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+
+  @Delete(":jobId")
+  async cancelJob(@Param("jobId") jobId: string, @CallerId() callerId: string) {
+    const progress = await this.processingJobs.cancel(jobId, callerId);
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+}
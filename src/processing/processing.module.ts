@@ -2,13 +2,73 @@ import { Module } from "@nestjs/common";
 import { BullModule } from "@nestjs/bull";
 import { HttpModule } from "@nestjs/axios";
 import { ConfigModule, ConfigService } from "@nestjs/config";
+import { StorageModule } from "../storage/storage.module";
+import { RedisModule } from "../redis/redis.module";
+import { SearchModule } from "../search/search.module";
 import { DocumentProcessorService } from "./services/document-processor.service";
 import { QueueConsumerService } from "./services/queue-consumer.service";
+import { ProcessingJobsService } from "./services/processing-jobs.service";
+import { JobCancellationService } from "./services/job-cancellation.service";
+import { FairSchedulerService } from "./services/fair-scheduler.service";
+import { DeadLetterService } from "./services/dead-letter.service";
+import { BatchJobsService } from "./services/batch-jobs.service";
+import { ResultStoreService } from "./results/result-store.service";
+import { StepCacheService } from "./results/step-cache.service";
+import { ProcessingController } from "./processing.controller";
+import { QueueAdminController } from "./queue-admin.controller";
+import { DocumentsController } from "./documents.controller";
+import { BatchesController } from "./batches.controller";
+import { ProgressController } from "./progress/progress.controller";
+import { ProgressGateway } from "./progress/progress.gateway";
+import { ProgressEventsService } from "./progress/progress-events.service";
+import { StepDurationStatsService } from "./progress/step-duration-stats.service";
+import { TextExtractorRegistry } from "./extractors/text-extractor.registry";
+import { PlainTextExtractor } from "./extractors/plain-text.extractor";
+import { MarkdownExtractor } from "./extractors/markdown.extractor";
+import { CsvExtractor } from "./extractors/csv.extractor";
+import { HtmlExtractor } from "./extractors/html.extractor";
+import { PdfExtractor } from "./extractors/pdf.extractor";
+import { DocxExtractor } from "./extractors/docx.extractor";
+import { OcrService } from "./ocr/ocr.service";
+import { KeywordExtractorService } from "./keywords/keyword-extractor.service";
+import { CorpusStatsService } from "./keywords/corpus-stats.service";
+import { LanguageDetectorService } from "./language/language-detector.service";
+import { SummarizationService } from "./summarization/summarization.service";
+import { ExtractiveSummarizer } from "./summarization/extractive.summarizer";
+import { HttpLlmSummarizer } from "./summarization/http-llm.summarizer";
+import { StubLlmSummarizer } from "./summarization/stub-llm.summarizer";
+import { ProcessingStepRegistry } from "./pipeline/processing-step.registry";
+import { StepRunner } from "./pipeline/step-runner.service";
+import { CallbackDispatcherService } from "./callbacks/callback-dispatcher.service";
+import { ExtractTextStep } from "./pipeline/steps/extract-text.step";
+import { OcrStep } from "./pipeline/steps/ocr.step";
+import { KeywordsStep } from "./pipeline/steps/keywords.step";
+import { SummaryStep } from "./pipeline/steps/summary.step";
+import { LanguageStep } from "./pipeline/steps/language.step";
+import { SearchIndexStep } from "./pipeline/steps/search-index.step";
+import { ExtractMetadataStep } from "./pipeline/steps/extract-metadata.step";
+import { PiiStep } from "./pipeline/steps/pii.step";
+import { PiiDetectorService } from "./pii/pii-detector.service";
+import { WorkerPoolService } from "./workers/worker-pool.service";
+import { IntakeService } from "./intake/intake.service";
+import { ArchiveStorageAdapter } from "./archives/archive-storage.adapter";
+import { ClamAvScanner } from "./intake/scanners/clamav.scanner";
+import { StubVirusScanner } from "./intake/scanners/stub.scanner";
+import { MetadataExtractorRegistry } from "./metadata/metadata-extractor.registry";
+import { PdfMetadataExtractor } from "./metadata/pdf-metadata.extractor";
+import { DocxMetadataExtractor } from "./metadata/docx-metadata.extractor";
+import { ImageMetadataExtractor } from "./metadata/image-metadata.extractor";
+import { HtmlMetadataExtractor } from "./metadata/html-metadata.extractor";
+import { MarkdownMetadataExtractor } from "./metadata/markdown-metadata.extractor";
+import { CsvMetadataExtractor } from "./metadata/csv-metadata.extractor";
 
 @Module({
   imports: [
     HttpModule,
     ConfigModule,
+    StorageModule,
+    RedisModule,
+    SearchModule,
     BullModule.forRootAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -21,11 +81,82 @@ import { QueueConsumerService } from "./services/queue-consumer.service";
       }),
       inject: [ConfigService],
     }),
-    BullModule.registerQueue({
-      name: "document-processing",
-    }),
+    BullModule.registerQueue(
+      { name: "document-processing" },
+      // Own queue, so unpacking batches never takes a document job's slot
+      { name: "batch-expansion" }
+    ),
+  ],
+  controllers: [
+    ProcessingController,
+    DocumentsController,
+    BatchesController,
+    QueueAdminController,
+    ProgressController,
+  ],
+  providers: [
+    DocumentProcessorService,
+    QueueConsumerService,
+    ProcessingJobsService,
+    JobCancellationService,
+    FairSchedulerService,
+    DeadLetterService,
+    BatchJobsService,
+    ArchiveStorageAdapter,
+    ResultStoreService,
+    StepCacheService,
+    IntakeService,
+    ClamAvScanner,
+    StubVirusScanner,
+    TextExtractorRegistry,
+    PlainTextExtractor,
+    MarkdownExtractor,
+    CsvExtractor,
+    HtmlExtractor,
+    PdfExtractor,
+    DocxExtractor,
+    MetadataExtractorRegistry,
+    PdfMetadataExtractor,
+    DocxMetadataExtractor,
+    ImageMetadataExtractor,
+    HtmlMetadataExtractor,
+    MarkdownMetadataExtractor,
+    CsvMetadataExtractor,
+    PiiDetectorService,
+    OcrService,
+    WorkerPoolService,
+    KeywordExtractorService,
+    CorpusStatsService,
+    LanguageDetectorService,
+    SummarizationService,
+    ExtractiveSummarizer,
+    HttpLlmSummarizer,
+    StubLlmSummarizer,
+    ProcessingStepRegistry,
+    StepRunner,
+    ExtractTextStep,
+    OcrStep,
+    KeywordsStep,
+    SummaryStep,
+    LanguageStep,
+    SearchIndexStep,
+    ExtractMetadataStep,
+    PiiStep,
+    CallbackDispatcherService,
+    ProgressEventsService,
+    StepDurationStatsService,
+    ProgressGateway,
+  ],
+  exports: [
+    DocumentProcessorService,
+    QueueConsumerService,
+    DeadLetterService,
+    ProcessingJobsService,
+    ResultStoreService,
+    TextExtractorRegistry,
+    ProcessingStepRegistry,
+    CallbackDispatcherService,
+    SummarizationService,
   ],
-  providers: [DocumentProcessorService, QueueConsumerService],
-  exports: [DocumentProcessorService, QueueConsumerService],
 })
 export class ProcessingModule {}
@@ -0,0 +1,110 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import Redis from "ioredis";
+import { JobId } from "bull";
+import { Observable, Subject, filter } from "rxjs";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import { ProgressEvent } from "../dto/processing.dto";
+
+const PROGRESS_CHANNEL = "processing:progress";
+const LATEST_KEY_PREFIX = "processing:progress:";
+const LATEST_TTL_SECONDS = 24 * 60 * 60;
+
+export interface ProgressFilter {
+  documentId?: string;
+  userId?: string;
+}
+
+/**
+ * Fans progress events out to every service instance over Redis pub/sub,
+ * so clients connected to an API instance see updates from any worker.
+ * The latest event per job is also kept for polling clients.
+ */
+@Injectable()
+export class ProgressEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProgressEventsService.name);
+  private readonly events$ = new Subject<ProgressEvent>();
+  private subscriber?: Redis;
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  onModuleInit() {
+    // Keep the subscription queued until Redis is reachable
+    this.subscriber = this.redis.duplicate({
+      maxRetriesPerRequest: null,
+      commandTimeout: undefined,
+    });
+    this.subscriber.on("error", (error) =>
+      this.logger.warn(`Progress subscriber error: ${error.message}`)
+    );
+    this.subscriber.on("message", (channel, message) => {
+      if (channel !== PROGRESS_CHANNEL) {
+        return;
+      }
+      try {
+        this.events$.next(JSON.parse(message));
+      } catch (error) {
+        this.logger.warn(`Dropping malformed progress event: ${error.message}`);
+      }
+    });
+
+    this.subscriber
+      .subscribe(PROGRESS_CHANNEL)
+      .catch((error) =>
+        this.logger.error(
+          `Failed to subscribe to progress events: ${error.message}`
+        )
+      );
+  }
+
+  async onModuleDestroy() {
+    this.events$.complete();
+    await this.subscriber?.quit().catch(() => undefined);
+  }
+
+  async publish(event: ProgressEvent): Promise<void> {
+    const message = JSON.stringify(event);
+
+    try {
+      await this.redis
+        .multi()
+        .set(
+          `${LATEST_KEY_PREFIX}${event.jobId}`,
+          message,
+          "EX",
+          LATEST_TTL_SECONDS
+        )
+        .publish(PROGRESS_CHANNEL, message)
+        .exec();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish progress for job ${event.jobId}: ${error.message}`
+      );
+    }
+  }
+
+  async getLatest(jobId: JobId): Promise<ProgressEvent | undefined> {
+    try {
+      const raw = await this.redis.get(`${LATEST_KEY_PREFIX}${jobId}`);
+      return raw ? JSON.parse(raw) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Events matching every given filter field; no filter means all events. */
+  stream(criteria: ProgressFilter = {}): Observable<ProgressEvent> {
+    return this.events$.pipe(
+      filter(
+        (event) =>
+          (!criteria.documentId || event.documentId === criteria.documentId) &&
+          (!criteria.userId || event.userId === criteria.userId)
+      )
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  MessageEvent,
+  Query,
+  Sse,
+  UseGuards,
+} from "@nestjs/common";
+import { Observable, map } from "rxjs";
+import { ProgressEventsService } from "./progress-events.service";
+import { ProgressEventsQueryDto } from "../dto/progress-events.dto";
+import {
+  CallerId,
+  ServiceTokenGuard,
+} from "../../common/guards/service-token.guard";
+
+@Controller("processing/events")
+@UseGuards(ServiceTokenGuard)
+export class ProgressController {
+  constructor(private readonly progressEvents: ProgressEventsService) {}
+
+  /**
+   * Server-Sent Events stream of the caller's `progress` events, optionally
+   * for one document.
+   */
+  @Sse()
+  streamProgress(
+    @Query() query: ProgressEventsQueryDto,
+    @CallerId() callerId: string
+  ): Observable<MessageEvent> {
+    return this.progressEvents
+      .stream({ documentId: query.documentId, userId: callerId })
+      .pipe(
+        map((event) => ({
+          type: "progress",
+          id: `${event.jobId}:${new Date(event.timestamp).getTime()}`,
+          data: event,
+        }))
+      );
+  }
+}
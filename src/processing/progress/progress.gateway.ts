@@ -0,0 +1,124 @@
+import { Logger, OnModuleDestroy } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from "@nestjs/websockets";
+import { Namespace, Socket } from "socket.io";
+import { Subscription } from "rxjs";
+import { ProgressEventsService } from "./progress-events.service";
+import {
+  CALLER_ID_HEADER,
+  authenticateCaller,
+} from "../../common/guards/service-token.guard";
+
+/**
+ * Socket.IO namespace `/progress`. Clients connect with the processing API
+ * token and the user they act for, either as handshake `auth`
+ * (`{ token, userId }`) or as the HTTP headers the processing API takes.
+ * They then emit `subscribe` (or `unsubscribe`), optionally with
+ * `{ documentId }`, and receive `progress` events for all of that user's
+ * documents or for the one document. Other users' events are never sent.
+ */
+@WebSocketGateway({
+  namespace: "progress",
+  cors: {
+    origin: ["http://localhost:8080", "http://localhost:3000"],
+    credentials: true,
+  },
+})
+export class ProgressGateway
+  implements OnGatewayInit, OnGatewayConnection, OnModuleDestroy
+{
+  private readonly logger = new Logger(ProgressGateway.name);
+  private subscription?: Subscription;
+
+  @WebSocketServer()
+  private readonly server: Namespace;
+
+  constructor(
+    private readonly progressEvents: ProgressEventsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  afterInit() {
+    this.subscription = this.progressEvents.stream().subscribe((event) => {
+      this.server
+        .to([
+          this.userRoom(event.userId),
+          this.documentRoom(event.userId, event.documentId),
+        ])
+        .emit("progress", event);
+    });
+  }
+
+  handleConnection(client: Socket) {
+    const { auth, headers } = client.handshake;
+    const authorization = headers.authorization ?? "";
+    try {
+      client.data.userId = authenticateCaller(
+        this.configService,
+        auth?.token ??
+          (headers["x-service-token"] as string | undefined) ??
+          (authorization.startsWith("Bearer ") ? authorization.slice(7) : ""),
+        auth?.userId ?? (headers[CALLER_ID_HEADER] as string | undefined)
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Rejected progress client ${client.id}: ${error.message}`
+      );
+      client.emit("error", { message: error.message });
+      client.disconnect(true);
+    }
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  @SubscribeMessage("subscribe")
+  async subscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() criteria: { documentId?: string }
+  ) {
+    const room = this.toRoom(client, criteria);
+    await client.join(room);
+    this.logger.debug(`Client ${client.id} subscribed to ${room}`);
+    return { event: "subscribed", data: room };
+  }
+
+  @SubscribeMessage("unsubscribe")
+  async unsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() criteria: { documentId?: string }
+  ) {
+    const room = this.toRoom(client, criteria);
+    await client.leave(room);
+    return { event: "unsubscribed", data: room };
+  }
+
+  /** Rooms are always scoped to the authenticated user. */
+  private toRoom(client: Socket, criteria?: { documentId?: string }) {
+    const userId: string | undefined = client.data.userId;
+    if (!userId) {
+      throw new WsException("Not authenticated");
+    }
+    return criteria?.documentId
+      ? this.documentRoom(userId, criteria.documentId)
+      : this.userRoom(userId);
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private documentRoom(userId: string, documentId: string): string {
+    return `user:${userId}:document:${documentId}`;
+  }
+}
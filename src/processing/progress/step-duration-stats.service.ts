@@ -0,0 +1,65 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import Redis from "ioredis";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import { ProcessingStep } from "../pipeline/processing-step.interface";
+
+const DURATIONS_KEY = "processing:step-durations";
+/** Weight of the newest sample in the moving average. */
+const SMOOTHING = 0.2;
+/** Assumed cost of one unit of step weight before any history exists. */
+const DEFAULT_MS_PER_WEIGHT = 1000;
+
+/**
+ * Exponential moving average of how long each step takes, shared between
+ * workers through Redis and used to estimate time remaining.
+ */
+@Injectable()
+export class StepDurationStatsService {
+  private readonly logger = new Logger(StepDurationStatsService.name);
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async record(step: string, durationMs: number): Promise<void> {
+    try {
+      const previous = Number(await this.redis.hget(DURATIONS_KEY, step));
+      const average =
+        previous > 0
+          ? previous + SMOOTHING * (durationMs - previous)
+          : durationMs;
+      await this.redis.hset(DURATIONS_KEY, step, Math.round(average));
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record duration for step ${step}: ${error.message}`
+      );
+    }
+  }
+
+  async getAverages(): Promise<Record<string, number>> {
+    try {
+      const raw = await this.redis.hgetall(DURATIONS_KEY);
+      return Object.fromEntries(
+        Object.entries(raw).map(([step, value]) => [step, Number(value)])
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to load step durations: ${error.message}`);
+      return {};
+    }
+  }
+
+  /**
+   * Estimated milliseconds left given the steps still to run, the first of
+   * which has already been running for `elapsedInCurrentMs`.
+   */
+  estimateRemaining(
+    averages: Record<string, number>,
+    remainingSteps: ProcessingStep[],
+    elapsedInCurrentMs = 0
+  ): number {
+    const total = remainingSteps.reduce(
+      (sum, step) =>
+        sum + (averages[step.name] ?? step.weight * DEFAULT_MS_PER_WEIGHT),
+      0
+    );
+    return Math.max(0, Math.round(total - elapsedInCurrentMs));
+  }
+}
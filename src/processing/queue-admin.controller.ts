@@ -0,0 +1,163 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { QueueConsumerService } from "./services/queue-consumer.service";
+import { DeadLetterService } from "./services/dead-letter.service";
+import { CleanQueueDto, ListDeadLettersQueryDto } from "./dto/queue-admin.dto";
+import { AdminTokenGuard } from "../common/guards/admin-token.guard";
+
+@Controller("admin/queue")
+@UseGuards(AdminTokenGuard)
+export class QueueAdminController {
+  constructor(
+    private readonly queueConsumer: QueueConsumerService,
+    private readonly deadLetters: DeadLetterService
+  ) {}
+
+  @Get("stats")
+  async getStats() {
+    const stats = await this.queueConsumer.getQueueStats();
+    return {
+      success: true,
+      data: stats,
+    };
+  }
+
+  @Get("failed")
+  async getFailedJobs() {
+    const jobs = await this.queueConsumer.getFailedJobs();
+    return {
+      success: true,
+      data: jobs.map((job) => ({
+        jobId: String(job.id),
+        documentId: job.data.documentId,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason,
+        finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+      })),
+    };
+  }
+
+  @Post("pause")
+  @HttpCode(200)
+  async pause() {
+    await this.queueConsumer.pauseQueue();
+    return { success: true };
+  }
+
+  @Post("resume")
+  @HttpCode(200)
+  async resume() {
+    await this.queueConsumer.resumeQueue();
+    return { success: true };
+  }
+
+  @Post("clean")
+  @HttpCode(200)
+  async clean(@Body() dto: CleanQueueDto) {
+    const removed = await this.queueConsumer.cleanQueue(
+      dto.grace,
+      dto.status,
+      dto.limit
+    );
+    return {
+      success: true,
+      data: { removed },
+    };
+  }
+
+  @Post("failed/retry")
+  @HttpCode(200)
+  async retryAllFailed() {
+    const retried = await this.queueConsumer.retryAllFailed();
+    return {
+      success: true,
+      data: { retried },
+    };
+  }
+
+  @Post("delayed/promote")
+  @HttpCode(200)
+  async promoteAllDelayed() {
+    const promoted = await this.queueConsumer.promoteAllDelayed();
+    return {
+      success: true,
+      data: { promoted },
+    };
+  }
+
+  @Post("jobs/:jobId/retry")
+  @HttpCode(200)
+  async retryJob(@Param("jobId") jobId: string) {
+    await this.queueConsumer.retryJob(jobId);
+    return { success: true };
+  }
+
+  @Post("jobs/:jobId/promote")
+  @HttpCode(200)
+  async promoteJob(@Param("jobId") jobId: string) {
+    await this.queueConsumer.promoteJob(jobId);
+    return { success: true };
+  }
+
+  @Delete("jobs/:jobId")
+  async removeJob(@Param("jobId") jobId: string) {
+    await this.queueConsumer.removeJob(jobId);
+    return { success: true };
+  }
+
+  @Get("dead-letter")
+  async getDeadLetters(@Query() query: ListDeadLettersQueryDto) {
+    return {
+      success: true,
+      data: await this.deadLetters.list(query.offset, query.limit),
+    };
+  }
+
+  @Post("dead-letter/replay")
+  @HttpCode(200)
+  async replayAllDeadLetters() {
+    const replayed = await this.deadLetters.replayAll();
+    return {
+      success: true,
+      data: { replayed },
+    };
+  }
+
+  @Get("dead-letter/:jobId")
+  async getDeadLetter(@Param("jobId") jobId: string) {
+    const entry = await this.deadLetters.get(jobId);
+    if (!entry) {
+      throw new NotFoundException(`Job ${jobId} is not dead-lettered`);
+    }
+    return {
+      success: true,
+      data: entry,
+    };
+  }
+
+  @Post("dead-letter/:jobId/replay")
+  @HttpCode(200)
+  async replayDeadLetter(@Param("jobId") jobId: string) {
+    const newJobId = await this.deadLetters.replay(jobId);
+    return {
+      success: true,
+      data: { jobId: newJobId },
+    };
+  }
+
+  @Delete("dead-letter/:jobId")
+  async removeDeadLetter(@Param("jobId") jobId: string) {
+    await this.deadLetters.remove(jobId);
+    return { success: true };
+  }
+}
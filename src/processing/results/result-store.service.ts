@@ -0,0 +1,111 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { JobId } from "bull";
+import Redis from "ioredis";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import {
+  DocumentProcessingJob,
+  ProcessingResult,
+  StoredResult,
+  StoredResultSummary,
+} from "../dto/processing.dto";
+
+const KEY_PREFIX = "processing:results";
+
+/**
+ * Keeps processing results in Redis by document, independently of Bull's
+ * job retention, together with the job (and so the `ProcessingConfig`)
+ * that produced them. Every run adds a new version; the newest
+ * `RESULT_HISTORY_LIMIT` versions are kept.
+ */
+@Injectable()
+export class ResultStoreService {
+  private readonly logger = new Logger(ResultStoreService.name);
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly configService: ConfigService
+  ) {}
+
+  /** Stores a result, returning its version, or undefined if Redis failed. */
+  async save(
+    job: DocumentProcessingJob,
+    result: ProcessingResult,
+    jobId?: JobId
+  ): Promise<number | undefined> {
+    const historyLimit = Number(
+      this.configService.get("RESULT_HISTORY_LIMIT", 10)
+    );
+    const ttl = Number(this.configService.get("RESULT_TTL", 0));
+    const versionsKey = this.versionsKey(job.documentId);
+
+    try {
+      const version = await this.redis.incr(this.counterKey(job.documentId));
+      const stored: StoredResult = {
+        documentId: job.documentId,
+        version,
+        jobId: jobId !== undefined ? String(jobId) : undefined,
+        storedAt: new Date(),
+        job,
+        result: { ...result, version },
+      };
+
+      const transaction = this.redis
+        .multi()
+        .lpush(versionsKey, JSON.stringify(stored))
+        .ltrim(versionsKey, 0, Math.max(1, historyLimit) - 1);
+      if (ttl > 0) {
+        transaction
+          .pexpire(versionsKey, ttl)
+          .pexpire(this.counterKey(job.documentId), ttl);
+      }
+      await transaction.exec();
+
+      return version;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to store result for document ${job.documentId}: ${error.message}`
+      );
+      return undefined;
+    }
+  }
+
+  async getLatest(documentId: string): Promise<StoredResult | undefined> {
+    const raw = await this.redis.lindex(this.versionsKey(documentId), 0);
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  async getVersion(
+    documentId: string,
+    version: number
+  ): Promise<StoredResult | undefined> {
+    return (await this.getAll(documentId)).find(
+      (stored) => stored.version === version
+    );
+  }
+
+  /** Kept versions, newest first. */
+  async listVersions(documentId: string): Promise<StoredResultSummary[]> {
+    return (await this.getAll(documentId)).map((stored) => ({
+      version: stored.version,
+      jobId: stored.jobId,
+      storedAt: stored.storedAt,
+      status: stored.result.status,
+      steps: (stored.result.steps ?? []).map((step) => step.step),
+      reprocess: stored.job.reprocess,
+    }));
+  }
+
+  private async getAll(documentId: string): Promise<StoredResult[]> {
+    const raw = await this.redis.lrange(this.versionsKey(documentId), 0, -1);
+    return raw.map((entry) => JSON.parse(entry));
+  }
+
+  private versionsKey(documentId: string): string {
+    return `${KEY_PREFIX}:${documentId}`;
+  }
+
+  private counterKey(documentId: string): string {
+    return `${KEY_PREFIX}:${documentId}:version`;
+  }
+}
@@ -0,0 +1,89 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import Redis from "ioredis";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import { ProcessingResult } from "../dto/processing.dto";
+import {
+  PipelineContext,
+  ProcessingStep,
+} from "../pipeline/processing-step.interface";
+
+const KEY_PREFIX = "processing:step-cache";
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Step outputs cached in Redis by step, step cache version, content hash
+ * and variant, so identical files skip the expensive steps. Cache failures
+ * are logged and treated as misses.
+ */
+@Injectable()
+export class StepCacheService {
+  private readonly logger = new Logger(StepCacheService.name);
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly configService: ConfigService
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get("STEP_CACHE_ENABLED", "true") !== "false";
+  }
+
+  async get(
+    step: ProcessingStep,
+    context: PipelineContext
+  ): Promise<Partial<ProcessingResult> | undefined> {
+    const key = this.key(step, context);
+    if (!key) {
+      return undefined;
+    }
+
+    try {
+      const raw = await this.redis.get(key);
+      return raw ? JSON.parse(raw) : undefined;
+    } catch (error) {
+      this.logger.warn(
+        `Step cache lookup for ${step.name} failed: ${error.message}`
+      );
+      return undefined;
+    }
+  }
+
+  async set(step: ProcessingStep, context: PipelineContext): Promise<void> {
+    const key = this.key(step, context);
+    // The text is only redacted by a later step
+    if (!key || (step.cache.holdsText && context.job.config.redactPii)) {
+      return;
+    }
+
+    const outputs = Object.fromEntries(
+      step.cache.outputs
+        .filter((field) => context.result[field] !== undefined)
+        .map((field) => [field, context.result[field]])
+    );
+    const ttl = Number(
+      this.configService.get("STEP_CACHE_TTL", DEFAULT_TTL_MS)
+    );
+
+    try {
+      await this.redis.set(key, JSON.stringify(outputs), "PX", ttl);
+    } catch (error) {
+      this.logger.warn(`Failed to cache ${step.name} output: ${error.message}`);
+    }
+  }
+
+  private key(
+    step: ProcessingStep,
+    context: PipelineContext
+  ): string | undefined {
+    const contentHash = context.result.contentHash;
+    if (!step.cache || !contentHash) {
+      return undefined;
+    }
+
+    const variant = step.cache.variant?.(context) ?? "";
+    const variantHash = createHash("sha1").update(variant).digest("hex");
+    return `${KEY_PREFIX}:${step.name}:v${step.cache.version}:${contentHash}:${variantHash.slice(0, 16)}`;
+  }
+}
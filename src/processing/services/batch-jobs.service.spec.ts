@@ -0,0 +1,171 @@
+import { ConfigService } from "@nestjs/config";
+import { Job, Queue } from "bull";
+import RedisMock from "ioredis-mock";
+import {
+  BatchProcessingJob,
+  DocumentProcessingJob,
+  ProcessingResult,
+  ProcessingStatus,
+} from "../dto/processing.dto";
+import { ArchiveStorageAdapter } from "../archives/archive-storage.adapter";
+import { TextExtractorRegistry } from "../extractors/text-extractor.registry";
+import { CallbackDispatcherService } from "../callbacks/callback-dispatcher.service";
+import { ProgressEventsService } from "../progress/progress-events.service";
+import { BatchExpansionJob, BatchJobsService } from "./batch-jobs.service";
+import { FairSchedulerService } from "./fair-scheduler.service";
+
+const batch: BatchProcessingJob = {
+  batchId: "batch-1",
+  userId: "user-1",
+  documents: ["doc-1", "doc-2"].map((documentId) => ({
+    documentId,
+    fileName: `${documentId}.txt`,
+    fileType: "text/plain",
+    fileSize: 10,
+    storagePath: `${documentId}.txt`,
+  })),
+  config: {
+    extractText: true,
+    performOCR: false,
+    extractKeywords: false,
+    generateSummary: false,
+    detectLanguage: false,
+    enableSearch: false,
+    priority: "normal",
+  },
+  metadata: { uploadedAt: new Date() },
+};
+
+function result(
+  documentId: string,
+  status = ProcessingStatus.COMPLETED
+): ProcessingResult {
+  return {
+    documentId,
+    success: status === ProcessingStatus.COMPLETED,
+    status,
+    processingTime: 10,
+    errors: [],
+  };
+}
+
+describe("BatchJobsService", () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let submit: jest.Mock;
+  let isSubmitted: jest.Mock;
+  let sendBatchResult: jest.Mock;
+  let service: BatchJobsService;
+  /** Document jobs handed to the fair scheduler, by document id. */
+  let submitted: Map<string, { job: DocumentProcessingJob; jobId: string }>;
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    await redis.flushall();
+    submitted = new Map();
+    submit = jest.fn(async (job: DocumentProcessingJob, jobId: string) => {
+      submitted.set(job.documentId, { job, jobId });
+      return jobId;
+    });
+    isSubmitted = jest.fn().mockResolvedValue(true);
+    sendBatchResult = jest.fn().mockResolvedValue(undefined);
+
+    service = new BatchJobsService(
+      { add: jest.fn().mockResolvedValue(undefined) } as unknown as Queue,
+      redis as any,
+      new ConfigService({}),
+      { submit, isSubmitted } as unknown as FairSchedulerService,
+      {} as ArchiveStorageAdapter,
+      {} as TextExtractorRegistry,
+      { sendBatchResult } as unknown as CallbackDispatcherService,
+      {
+        getLatest: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ProgressEventsService
+    );
+
+    await service.submit(batch);
+    await service.expand({
+      data: { batchId: batch.batchId },
+      attemptsMade: 0,
+      opts: {},
+    } as Job<BatchExpansionJob>);
+  });
+
+  afterEach(() => redis.disconnect());
+
+  async function record(documentId: string, status?: ProcessingStatus) {
+    const { job, jobId } = submitted.get(documentId);
+    await service.recordResult(job, result(documentId, status), jobId);
+  }
+
+  it("submits every document of the batch once", async () => {
+    await service.expand({
+      data: { batchId: batch.batchId },
+      attemptsMade: 1,
+      opts: {},
+    } as Job<BatchExpansionJob>);
+
+    expect(submit).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends the batch callback once the last document finished", async () => {
+    await record("doc-1");
+    expect(sendBatchResult).not.toHaveBeenCalled();
+
+    await record("doc-2", ProcessingStatus.FAILED);
+    expect(sendBatchResult).toHaveBeenCalledTimes(1);
+
+    const [progress] = sendBatchResult.mock.calls[0];
+    expect(progress.status).toBe(ProcessingStatus.COMPLETED);
+    expect(progress.partial).toBe(true);
+    expect(progress.counts[ProcessingStatus.FAILED]).toBe(1);
+  });
+
+  it("sends the batch callback only once when a document reports twice", async () => {
+    await record("doc-1");
+    await record("doc-2");
+    await record("doc-2");
+
+    expect(sendBatchResult).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves a finished batch as reported", async () => {
+    await record("doc-1");
+    await record("doc-2");
+    await record("doc-1", ProcessingStatus.FAILED);
+
+    const progress = await service.getProgress(batch.batchId);
+    expect(progress.counts[ProcessingStatus.COMPLETED]).toBe(2);
+  });
+
+  it("records a document that failed outside the pipeline unless it has a result", async () => {
+    const error = { code: "INTERNAL_ERROR", message: "Worker crashed" };
+    const fail = async (documentId: string) => {
+      const { job, jobId } = submitted.get(documentId);
+      await service.recordFailure(job, jobId, error);
+    };
+    await record("doc-2");
+    await fail("doc-2");
+    expect(sendBatchResult).not.toHaveBeenCalled();
+
+    await fail("doc-1");
+
+    const [progress] = sendBatchResult.mock.calls[0];
+    expect(progress.counts[ProcessingStatus.COMPLETED]).toBe(1);
+    expect(progress.counts[ProcessingStatus.FAILED]).toBe(1);
+  });
+
+  it("records documents whose job left the queue without a result", async () => {
+    await record("doc-1");
+    const lost = submitted.get("doc-2").jobId;
+    isSubmitted.mockImplementation(async (jobId: string) => jobId !== lost);
+
+    await service["reconcile"]();
+
+    const [progress] = sendBatchResult.mock.calls[0];
+    const document = progress.documents.find(
+      (candidate) => candidate.documentId === "doc-2"
+    );
+    expect(document.status).toBe(ProcessingStatus.FAILED);
+    expect(document.error.code).toBe("JOB_LOST");
+  });
+});
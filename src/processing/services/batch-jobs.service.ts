@@ -0,0 +1,624 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { InjectQueue } from "@nestjs/bull";
+import { ConfigService } from "@nestjs/config";
+import { Job, JobId, Queue } from "bull";
+import Redis from "ioredis";
+import { randomUUID } from "crypto";
+import { basename } from "path";
+import { SpanKind } from "@opentelemetry/api";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import {
+  TraceCarrier,
+  extractTraceContext,
+  injectTraceContext,
+  withSpan,
+} from "../../tracing/tracing";
+import {
+  BatchDocument,
+  BatchDocumentSource,
+  BatchProcessingJob,
+  BatchProgress,
+  DocumentProcessingJob,
+  ProcessingError,
+  ProcessingResult,
+  ProcessingStatus,
+  SkippedBatchFile,
+} from "../dto/processing.dto";
+import {
+  BatchTooLargeError,
+  isTransientError,
+  toProcessingError,
+} from "../errors/processing.errors";
+import {
+  ArchiveStorageAdapter,
+  archiveMemberPath,
+} from "../archives/archive-storage.adapter";
+import { TextExtractorRegistry } from "../extractors/text-extractor.registry";
+import { CallbackDispatcherService } from "../callbacks/callback-dispatcher.service";
+import { ProgressEventsService } from "../progress/progress-events.service";
+import { FairSchedulerService, JOB_PRIORITIES } from "./fair-scheduler.service";
+
+const KEY_PREFIX = "processing:batches";
+/** Batches not completed yet, for the reconcile sweep. */
+const OPEN_BATCHES_KEY = "processing:open-batches";
+
+const FINISHED_STATUSES = [
+  ProcessingStatus.COMPLETED,
+  ProcessingStatus.FAILED,
+  ProcessingStatus.CANCELLED,
+];
+
+/** Archive entries that are never documents: macOS resource forks, dotfiles. */
+const IGNORED_ENTRY = /(^|\/)(__MACOSX\/|\.)/;
+
+/** Queue job that turns a batch into document jobs. */
+export interface BatchExpansionJob {
+  batchId: string;
+  /** Trace context the document jobs' traces continue. */
+  trace?: TraceCarrier;
+}
+
+/**
+ * Records a finished document (if any) and marks the batch complete when
+ * it is unpacked and every document has finished. Returns 1 only to the
+ * one caller that completed it. A completed batch is left as reported.
+ * KEYS: batch hash, documents hash, finished set
+ * ARGV: document id or "", document JSON, completion timestamp, "1" to
+ * keep a document that is already recorded
+ */
+const FINISH_SCRIPT = `
+if redis.call('HEXISTS', KEYS[1], 'completedAt') == 1 then return 0 end
+local keep = ARGV[4] == '1' and redis.call('SISMEMBER', KEYS[3], ARGV[1]) == 1
+if ARGV[1] ~= '' and not keep then
+  redis.call('HSET', KEYS[2], ARGV[1], ARGV[2])
+  redis.call('SADD', KEYS[3], ARGV[1])
+end
+if redis.call('HGET', KEYS[1], 'expanded') ~= '1' then return 0 end
+if redis.call('SCARD', KEYS[3]) < redis.call('HLEN', KEYS[2]) then return 0 end
+return redis.call('HSETNX', KEYS[1], 'completedAt', ARGV[3])
+`;
+
+/**
+ * Batches of documents: the files of a ZIP or tar archive, or a list of
+ * files in storage. An "expand-batch" job on the "batch-expansion" queue
+ * unpacks the batch and submits one processing job per document through
+ * the fair scheduler. Each document gets the usual callback; once all of them have finished
+ * the batch callback reports every document's outcome. Documents whose job
+ * is gone without reporting are recorded as failed by a periodic sweep.
+ */
+@Injectable()
+export class BatchJobsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BatchJobsService.name);
+  private reconcileTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectQueue("batch-expansion")
+    private readonly batchQueue: Queue,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly configService: ConfigService,
+    private readonly fairScheduler: FairSchedulerService,
+    private readonly archives: ArchiveStorageAdapter,
+    private readonly extractorRegistry: TextExtractorRegistry,
+    private readonly callbackDispatcher: CallbackDispatcherService,
+    private readonly progressEvents: ProgressEventsService
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get("BATCH_RECONCILE_INTERVAL", 60000)
+    );
+    this.reconcileTimer = setInterval(() => void this.reconcile(), interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.reconcileTimer);
+  }
+
+  async submit(batch: BatchProcessingJob): Promise<BatchProgress> {
+    if (!batch.archive === !batch.documents) {
+      throw new BadRequestException(
+        "A batch needs either an archive or a list of documents"
+      );
+    }
+    if (batch.documents) {
+      const ids = new Set(batch.documents.map((doc) => doc.documentId));
+      if (ids.size < batch.documents.length) {
+        throw new BadRequestException("Batch document ids must be unique");
+      }
+      const limit = this.maxDocuments();
+      if (limit && batch.documents.length > limit) {
+        throw new BadRequestException(
+          new BatchTooLargeError(batch.documents.length, limit).message
+        );
+      }
+    }
+
+    const created = await this.redis.hsetnx(
+      this.batchKey(batch.batchId),
+      "job",
+      JSON.stringify(batch)
+    );
+    if (!created) {
+      throw new ConflictException(`Batch ${batch.batchId} already exists`);
+    }
+    await this.redis
+      .multi()
+      .hset(this.batchKey(batch.batchId), "createdAt", new Date().toISOString())
+      .sadd(OPEN_BATCHES_KEY, batch.batchId)
+      .exec();
+
+    await withSpan(
+      "batch.enqueue",
+      {
+        kind: SpanKind.PRODUCER,
+        attributes: {
+          "processing.batch_id": batch.batchId,
+          "processing.user_id": batch.userId,
+        },
+      },
+      async () => {
+        const expansion: BatchExpansionJob = {
+          batchId: batch.batchId,
+          trace: injectTraceContext(),
+        };
+        await this.batchQueue.add("expand-batch", expansion, {
+          // A second add for the same batch is ignored by Bull
+          jobId: `batch:${batch.batchId}`,
+          priority:
+            JOB_PRIORITIES[batch.config.priority] ?? JOB_PRIORITIES.normal,
+          attempts: 1 + Number(this.configService.get("RETRY_ATTEMPTS", 3)),
+          backoff: {
+            type: "exponential",
+            delay: Number(this.configService.get("RETRY_DELAY", 5000)),
+          },
+        });
+      }
+    );
+    this.logger.log(`Submitted batch ${batch.batchId}`);
+
+    return this.getProgress(batch.batchId);
+  }
+
+  /**
+   * Handles an "expand-batch" job. Documents submitted by an earlier
+   * attempt are skipped, so a retry only submits the rest. A batch that
+   * cannot be unpacked fails, but the documents found until then still run.
+   * The document jobs' traces continue the batch's.
+   */
+  async expand(job: Job<BatchExpansionJob>): Promise<void> {
+    await withSpan(
+      "batch.expand",
+      {
+        kind: SpanKind.CONSUMER,
+        attributes: {
+          "processing.batch_id": job.data.batchId,
+          "processing.attempt": job.attemptsMade + 1,
+        },
+      },
+      () => this.expandBatch(job),
+      extractTraceContext(job.data.trace)
+    );
+  }
+
+  /**
+   * Records the final result of a document of a batch, sending the batch
+   * callback if it was the last one. Never throws.
+   */
+  async recordResult(
+    job: DocumentProcessingJob,
+    result: ProcessingResult,
+    jobId: JobId
+  ): Promise<void> {
+    const document: BatchDocument = {
+      documentId: job.documentId,
+      jobId: String(jobId),
+      fileName: job.fileName,
+      source: job.metadata.archivePath ?? job.storagePath,
+      status: result.status ?? ProcessingStatus.COMPLETED,
+      error: result.success ? undefined : result.errors?.[0],
+    };
+
+    try {
+      await this.finish(job.batchId, document);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record document ${job.documentId} of batch ${job.batchId}: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Records a document of a batch whose job failed for good outside the
+   * pipeline, unless it already has a result. Never throws.
+   */
+  async recordFailure(
+    job: DocumentProcessingJob,
+    jobId: JobId,
+    error: ProcessingError
+  ): Promise<void> {
+    const document: BatchDocument = {
+      documentId: job.documentId,
+      jobId: String(jobId),
+      fileName: job.fileName,
+      source: job.metadata.archivePath ?? job.storagePath,
+      status: ProcessingStatus.FAILED,
+      error,
+    };
+
+    try {
+      await this.finish(job.batchId, document, true);
+    } catch (recordError) {
+      this.logger.warn(
+        `Failed to record failed document ${job.documentId} of batch ${job.batchId}: ${recordError.message}`
+      );
+    }
+  }
+
+  /** With `callerId`, batches of other users are reported as not found. */
+  async getProgress(
+    batchId: string,
+    callerId?: string
+  ): Promise<BatchProgress> {
+    const [fields, rawDocuments] = await Promise.all([
+      this.redis.hgetall(this.batchKey(batchId)),
+      this.redis.hvals(this.documentsKey(batchId)),
+    ]);
+    if (
+      !fields.job ||
+      (callerId && JSON.parse(fields.job).userId !== callerId)
+    ) {
+      throw new NotFoundException(`Batch ${batchId} not found`);
+    }
+
+    const documents: BatchDocument[] = rawDocuments.map((raw) =>
+      JSON.parse(raw)
+    );
+    // Documents still running report their progress through progress events
+    const progress = await Promise.all(
+      documents.map(async (document) => {
+        if (FINISHED_STATUSES.includes(document.status)) {
+          return 100;
+        }
+        const latest = await this.progressEvents.getLatest(document.jobId);
+        if (latest) {
+          document.status = latest.status;
+        }
+        return latest?.progress ?? 0;
+      })
+    );
+
+    const counts = Object.fromEntries(
+      Object.values(ProcessingStatus).map((status) => [status, 0])
+    ) as Record<ProcessingStatus, number>;
+    documents.forEach((document) => counts[document.status]++);
+
+    const error: ProcessingError | undefined = fields.error
+      ? JSON.parse(fields.error)
+      : undefined;
+    const completed = counts[ProcessingStatus.COMPLETED];
+
+    let status: ProcessingStatus;
+    if (fields.completedAt) {
+      status =
+        error || !completed
+          ? ProcessingStatus.FAILED
+          : ProcessingStatus.COMPLETED;
+    } else if (
+      fields.expanded ||
+      documents.some((document) => document.status !== ProcessingStatus.PENDING)
+    ) {
+      status = ProcessingStatus.PROCESSING;
+    } else {
+      status = ProcessingStatus.PENDING;
+    }
+
+    return {
+      batchId,
+      status,
+      progress: documents.length
+        ? Math.round(
+            progress.reduce((sum, value) => sum + value, 0) / documents.length
+          )
+        : fields.completedAt
+          ? 100
+          : 0,
+      total: documents.length,
+      counts,
+      partial: fields.completedAt
+        ? completed > 0 && completed < documents.length
+        : undefined,
+      documents,
+      skipped: fields.skipped ? JSON.parse(fields.skipped) : [],
+      createdAt: new Date(fields.createdAt),
+      completedAt: fields.completedAt
+        ? new Date(fields.completedAt)
+        : undefined,
+      error,
+    };
+  }
+
+  private async expandBatch(job: Job<BatchExpansionJob>): Promise<void> {
+    const { batchId } = job.data;
+    const batch = await this.getBatch(batchId);
+    if (!batch) {
+      this.logger.warn(`Batch ${batchId} no longer exists, nothing to expand`);
+      return;
+    }
+
+    try {
+      const { documents, skipped } = batch.archive
+        ? await this.unpackArchive(batch)
+        : {
+            documents: batch.documents.map((doc) => this.toJob(batch, doc)),
+            skipped: [],
+          };
+
+      for (const document of documents) {
+        await this.submitDocument(document);
+      }
+      await this.redis
+        .multi()
+        .hset(this.batchKey(batchId), "skipped", JSON.stringify(skipped))
+        .hset(this.batchKey(batchId), "expanded", "1")
+        .exec();
+      this.logger.log(
+        `Batch ${batchId} unpacked into ${documents.length} documents` +
+          (skipped.length ? `, ${skipped.length} files skipped` : "")
+      );
+    } catch (error) {
+      // attemptsMade counts the attempts that failed before this one
+      if (
+        isTransientError(error) &&
+        job.attemptsMade + 1 < (job.opts.attempts ?? 1)
+      ) {
+        throw error;
+      }
+      this.logger.error(`Failed to unpack batch ${batchId}: ${error.message}`);
+      await this.redis
+        .multi()
+        .hset(
+          this.batchKey(batchId),
+          "error",
+          JSON.stringify(toProcessingError(error))
+        )
+        .hset(this.batchKey(batchId), "expanded", "1")
+        .exec();
+    }
+
+    await this.finish(batchId);
+  }
+
+  private async unpackArchive(batch: BatchProcessingJob): Promise<{
+    documents: DocumentProcessingJob[];
+    skipped: SkippedBatchFile[];
+  }> {
+    const entries = await this.archives.listEntries(batch.archive.storagePath);
+    const documents: DocumentProcessingJob[] = [];
+    const skipped: SkippedBatchFile[] = [];
+
+    for (const entry of entries) {
+      if (entry.isDirectory || IGNORED_ENTRY.test(entry.name)) {
+        continue;
+      }
+      const fileName = basename(entry.name);
+      const fileType = this.extractorRegistry.resolveMimeType("", fileName);
+      if (entry.encrypted) {
+        skipped.push({ path: entry.name, reason: "File is encrypted" });
+      } else if (!fileType) {
+        skipped.push({ path: entry.name, reason: "Unsupported file type" });
+      } else {
+        // Numbered in archive order, so a retried expansion gets the same ids
+        documents.push(
+          this.toJob(batch, {
+            documentId: `${batch.batchId}-${documents.length + 1}`,
+            fileName,
+            fileType,
+            fileSize: entry.size,
+            storagePath: archiveMemberPath(
+              batch.archive.storagePath,
+              entry.name
+            ),
+            metadata: { archivePath: entry.name },
+          })
+        );
+      }
+    }
+
+    const limit = this.maxDocuments();
+    if (limit && documents.length > limit) {
+      throw new BatchTooLargeError(documents.length, limit);
+    }
+    return { documents, skipped };
+  }
+
+  private toJob(
+    batch: BatchProcessingJob,
+    document: BatchDocumentSource
+  ): DocumentProcessingJob {
+    return {
+      documentId: document.documentId,
+      userId: batch.userId,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+      storagePath: document.storagePath,
+      config: batch.config,
+      metadata: {
+        ...batch.metadata,
+        ...document.metadata,
+        batchId: batch.batchId,
+      },
+      batchId: batch.batchId,
+    };
+  }
+
+  /**
+   * Reserves the document's entry, job id included, before submitting it,
+   * so overlapping expansions submit each document once. An entry still
+   * pending whose job never reached the scheduler was left by an attempt
+   * that died in between, and is submitted again under the same id.
+   */
+  private async submitDocument(job: DocumentProcessingJob): Promise<void> {
+    const key = this.documentsKey(job.batchId);
+    const document: BatchDocument = {
+      documentId: job.documentId,
+      jobId: randomUUID(),
+      fileName: job.fileName,
+      source: job.metadata.archivePath ?? job.storagePath,
+      status: ProcessingStatus.PENDING,
+    };
+
+    if (
+      !(await this.redis.hsetnx(key, job.documentId, JSON.stringify(document)))
+    ) {
+      const existing: BatchDocument = JSON.parse(
+        await this.redis.hget(key, job.documentId)
+      );
+      if (
+        existing.status !== ProcessingStatus.PENDING ||
+        (await this.fairScheduler.isSubmitted(existing.jobId))
+      ) {
+        return;
+      }
+      document.jobId = existing.jobId;
+    }
+    await this.fairScheduler.submit(job, document.jobId);
+  }
+
+  /**
+   * Records `document`, and sends the batch callback if the batch is done.
+   * With `keepRecorded`, a document that already has a result keeps it.
+   */
+  private async finish(
+    batchId: string,
+    document?: BatchDocument,
+    keepRecorded = false
+  ): Promise<void> {
+    const completed = await this.redis.eval(
+      FINISH_SCRIPT,
+      3,
+      this.batchKey(batchId),
+      this.documentsKey(batchId),
+      this.finishedKey(batchId),
+      document?.documentId ?? "",
+      document ? JSON.stringify(document) : "",
+      new Date().toISOString(),
+      keepRecorded ? "1" : "0"
+    );
+    if (!completed) {
+      return;
+    }
+    await this.redis.srem(OPEN_BATCHES_KEY, batchId);
+
+    const progress = await this.getProgress(batchId);
+    this.logger.log(
+      `Batch ${batchId} finished: ${progress.counts.COMPLETED}/${progress.total} documents completed`
+    );
+    await this.callbackDispatcher.sendBatchResult(progress);
+
+    const ttl = Number(this.configService.get("RESULT_TTL", 0));
+    if (ttl > 0) {
+      await this.redis
+        .multi()
+        .pexpire(this.batchKey(batchId), ttl)
+        .pexpire(this.documentsKey(batchId), ttl)
+        .pexpire(this.finishedKey(batchId), ttl)
+        .exec();
+    }
+  }
+
+  /**
+   * Safety net for documents that will never report: jobs removed from the
+   * queue or cleaned through the admin API, or lost with their worker.
+   * They are recorded as failed so their batch can finish.
+   */
+  private async reconcile(): Promise<void> {
+    try {
+      for (const batchId of await this.redis.smembers(OPEN_BATCHES_KEY)) {
+        await this.reconcileBatch(batchId);
+      }
+    } catch (error) {
+      this.logger.warn(`Batch reconcile sweep failed: ${error.message}`);
+    }
+  }
+
+  private async reconcileBatch(batchId: string): Promise<void> {
+    const [job, expanded, completedAt] = await this.redis.hmget(
+      this.batchKey(batchId),
+      "job",
+      "expanded",
+      "completedAt"
+    );
+    if (!job || completedAt) {
+      await this.redis.srem(OPEN_BATCHES_KEY, batchId);
+      return;
+    }
+    // Documents may still be on their way to the scheduler
+    if (expanded !== "1") {
+      return;
+    }
+
+    const [rawDocuments, finished] = await Promise.all([
+      this.redis.hvals(this.documentsKey(batchId)),
+      this.redis.smembers(this.finishedKey(batchId)),
+    ]);
+    const recorded = new Set(finished);
+    for (const raw of rawDocuments) {
+      const document: BatchDocument = JSON.parse(raw);
+      if (
+        recorded.has(document.documentId) ||
+        (await this.fairScheduler.isSubmitted(document.jobId))
+      ) {
+        continue;
+      }
+      this.logger.warn(
+        `Job ${document.jobId} of batch ${batchId} is gone without a result`
+      );
+      await this.finish(
+        batchId,
+        {
+          ...document,
+          status: ProcessingStatus.FAILED,
+          error: {
+            code: "JOB_LOST",
+            message: "Job left the queue without a result",
+          },
+        },
+        true
+      );
+    }
+  }
+
+  private async getBatch(
+    batchId: string
+  ): Promise<BatchProcessingJob | undefined> {
+    const raw = await this.redis.hget(this.batchKey(batchId), "job");
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  /** `BATCH_MAX_DOCUMENTS`; 0 means no limit. */
+  private maxDocuments(): number {
+    return Number(this.configService.get("BATCH_MAX_DOCUMENTS", 1000));
+  }
+
+  private batchKey(batchId: string): string {
+    return `${KEY_PREFIX}:${batchId}`;
+  }
+
+  private documentsKey(batchId: string): string {
+    return `${KEY_PREFIX}:${batchId}:documents`;
+  }
+
+  private finishedKey(batchId: string): string {
+    return `${KEY_PREFIX}:${batchId}:finished`;
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import Redis from "ioredis";
+import { Job, JobId } from "bull";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import { MetricsService } from "../../metrics/metrics.service";
+import { DocumentProcessingJob, ProcessingError } from "../dto/processing.dto";
+import {
+  TransientJobError,
+  toProcessingError,
+} from "../errors/processing.errors";
+import { FairSchedulerService } from "./fair-scheduler.service";
+
+const DEAD_LETTER_KEY = "processing:dead-letter";
+const DEAD_LETTER_INDEX_KEY = "processing:dead-letter:index";
+
+export interface DeadLetterEntry {
+  /** Id of the queue job that failed; a replay gets a new one. */
+  jobId: string;
+  data: DocumentProcessingJob;
+  attemptsMade: number;
+  failedReason: string;
+  errors: ProcessingError[];
+  deadLetteredAt: string;
+}
+
+/**
+ * Jobs that failed for good: transient failures that ran out of attempts
+ * and jobs that threw. They are moved out of Bull's failed set into Redis,
+ * where they stay until replayed or deleted through the admin API.
+ * Permanent failures (a corrupt file) are not dead-lettered; they complete
+ * with a failed result, since replaying them cannot help.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly fairScheduler: FairSchedulerService,
+    private readonly metrics: MetricsService
+  ) {}
+
+  async add(job: Job<DocumentProcessingJob>, error: Error): Promise<void> {
+    const errors =
+      error instanceof TransientJobError
+        ? error.errors
+        : [toProcessingError(error)];
+    const entry: DeadLetterEntry = {
+      jobId: String(job.id),
+      data: job.data,
+      attemptsMade: job.attemptsMade,
+      failedReason: error.message,
+      errors,
+      deadLetteredAt: new Date().toISOString(),
+    };
+
+    await this.redis
+      .multi()
+      .hset(DEAD_LETTER_KEY, entry.jobId, JSON.stringify(entry))
+      .zadd(DEAD_LETTER_INDEX_KEY, Date.now(), entry.jobId)
+      .exec();
+    this.metrics.recordDeadLetter(errors[0]?.code ?? "INTERNAL_ERROR");
+    this.logger.warn(
+      `Dead-lettered job ${job.id} for document ${job.data.documentId} after ${job.attemptsMade} attempt(s): ${error.message}`
+    );
+
+    try {
+      await job.remove();
+    } catch (removeError) {
+      this.logger.warn(
+        `Failed to remove dead-lettered job ${job.id} from the queue: ${removeError.message}`
+      );
+    }
+  }
+
+  /** Newest first. */
+  async list(
+    offset = 0,
+    limit = 20
+  ): Promise<{ total: number; entries: DeadLetterEntry[] }> {
+    const [total, jobIds] = await Promise.all([
+      this.redis.zcard(DEAD_LETTER_INDEX_KEY),
+      this.redis.zrevrange(DEAD_LETTER_INDEX_KEY, offset, offset + limit - 1),
+    ]);
+    const raw = jobIds.length
+      ? await this.redis.hmget(DEAD_LETTER_KEY, ...jobIds)
+      : [];
+
+    return {
+      total,
+      entries: raw.filter(Boolean).map((entry) => JSON.parse(entry)),
+    };
+  }
+
+  async count(): Promise<number> {
+    return this.redis.zcard(DEAD_LETTER_INDEX_KEY);
+  }
+
+  async get(jobId: JobId): Promise<DeadLetterEntry | undefined> {
+    const raw = await this.redis.hget(DEAD_LETTER_KEY, String(jobId));
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  /**
+   * Submits the job again, through the fair scheduler like any new job,
+   * and drops it from the dead-letter queue. Returns the new job id. A
+   * replayed batch document runs on its own, outside its batch.
+   */
+  async replay(jobId: JobId): Promise<string> {
+    const entry = await this.get(jobId);
+    if (!entry) {
+      throw new NotFoundException(`Job ${jobId} is not dead-lettered`);
+    }
+    // Claim the entry so concurrent replays submit it only once
+    if (!(await this.redis.zrem(DEAD_LETTER_INDEX_KEY, entry.jobId))) {
+      throw new ConflictException(`Job ${jobId} is already being replayed`);
+    }
+
+    let newJobId: string;
+    try {
+      // Its batch already counted the failure and may have completed
+      newJobId = await this.fairScheduler.submit({
+        ...entry.data,
+        batchId: undefined,
+      });
+    } catch (error) {
+      await this.redis.zadd(
+        DEAD_LETTER_INDEX_KEY,
+        Date.parse(entry.deadLetteredAt),
+        entry.jobId
+      );
+      throw error;
+    }
+
+    await this.redis.hdel(DEAD_LETTER_KEY, entry.jobId);
+    this.logger.log(`Replayed dead-lettered job ${jobId} as job ${newJobId}`);
+    return newJobId;
+  }
+
+  /** Replays every dead-lettered job; returns how many were submitted. */
+  async replayAll(): Promise<number> {
+    const jobIds = await this.redis.zrange(DEAD_LETTER_INDEX_KEY, 0, -1);
+    let replayed = 0;
+
+    for (const jobId of jobIds) {
+      try {
+        await this.replay(jobId);
+        replayed++;
+      } catch (error) {
+        this.logger.warn(
+          `Failed to replay dead-lettered job ${jobId}: ${error.message}`
+        );
+      }
+    }
+    return replayed;
+  }
+
+  async remove(jobId: JobId): Promise<void> {
+    const [, removed] = await this.redis
+      .multi()
+      .zrem(DEAD_LETTER_INDEX_KEY, String(jobId))
+      .hdel(DEAD_LETTER_KEY, String(jobId))
+      .exec();
+    if (!removed[1]) {
+      throw new NotFoundException(`Job ${jobId} is not dead-lettered`);
+    }
+    this.logger.log(`Deleted dead-lettered job ${jobId}`);
+  }
+}
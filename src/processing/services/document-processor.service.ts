@@ -1,28 +1,119 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { HttpService } from "@nestjs/axios";
-import { ConfigService } from "@nestjs/config";
-import { firstValueFrom } from "rxjs";
 import { Job } from "bull";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
 import {
   DocumentProcessingJob,
+  ProcessingProgress,
   ProcessingResult,
-  ProcessingConfig,
+  ProcessingStatus,
+  StepResult,
+  StepStatus,
 } from "../dto/processing.dto";
+import {
+  JobCancelledError,
+  JobRequeuedError,
+  ResultNotFoundError,
+  TransientJobError,
+  toProcessingError,
+} from "../errors/processing.errors";
+import { ProcessingStepRegistry } from "../pipeline/processing-step.registry";
+import {
+  PipelineContext,
+  ProcessingStep,
+} from "../pipeline/processing-step.interface";
+import { StepRunner } from "../pipeline/step-runner.service";
+import { CallbackDispatcherService } from "../callbacks/callback-dispatcher.service";
+import { JobCancellationService } from "./job-cancellation.service";
+import { ProgressEventsService } from "../progress/progress-events.service";
+import { StepDurationStatsService } from "../progress/step-duration-stats.service";
+import { MetricsService } from "../../metrics/metrics.service";
+import { ResultStoreService } from "../results/result-store.service";
+import { StepCacheService } from "../results/step-cache.service";
+import { IntakeService } from "../intake/intake.service";
+import { BatchJobsService } from "./batch-jobs.service";
+import { extractTraceContext, withSpan } from "../../tracing/tracing";
+
+const FINAL_STEP_MESSAGES: Record<string, string> = {
+  [ProcessingStatus.COMPLETED]: "Processing completed",
+  [ProcessingStatus.FAILED]: "Processing failed",
+  [ProcessingStatus.CANCELLED]: "Processing cancelled",
+};
+
+/** Fields describing a run rather than step output, not carried into a rerun. */
+const RUN_FIELDS: (keyof ProcessingResult)[] = [
+  "documentId",
+  "success",
+  "status",
+  "version",
+  "processingTime",
+  "errors",
+  "partial",
+  "steps",
+];
 
 @Injectable()
 export class DocumentProcessorService {
   private readonly logger = new Logger(DocumentProcessorService.name);
 
   constructor(
-    private readonly httpService: HttpService,
-    private readonly configService: ConfigService
+    private readonly stepRegistry: ProcessingStepRegistry,
+    private readonly stepRunner: StepRunner,
+    private readonly callbackDispatcher: CallbackDispatcherService,
+    private readonly cancellation: JobCancellationService,
+    private readonly progressEvents: ProgressEventsService,
+    private readonly durationStats: StepDurationStatsService,
+    private readonly metrics: MetricsService,
+    private readonly resultStore: ResultStoreService,
+    private readonly stepCache: StepCacheService,
+    private readonly intake: IntakeService,
+    private readonly batchJobs: BatchJobsService
   ) {}
 
+  /**
+   * Runs the pipeline in a span continuing the trace the job was enqueued
+   * in, with a child span for intake and for each step. Once `signal` is
+   * aborted the pipeline stops and throws `JobRequeuedError` instead of
+   * storing or reporting a result.
+   */
   async processDocument(
     job: DocumentProcessingJob,
-    bullJob?: Job<DocumentProcessingJob>
+    bullJob?: Job<DocumentProcessingJob>,
+    signal?: AbortSignal
+  ): Promise<ProcessingResult> {
+    return withSpan(
+      "document.process",
+      {
+        kind: SpanKind.CONSUMER,
+        attributes: {
+          "processing.job_id": bullJob ? String(bullJob.id) : undefined,
+          "processing.document_id": job.documentId,
+          "processing.user_id": job.userId,
+          "processing.file_type": job.fileType,
+          "processing.attempt": bullJob ? bullJob.attemptsMade + 1 : undefined,
+        },
+      },
+      async (span) => {
+        const result = await this.runPipeline(job, bullJob, signal);
+        span.setAttribute("processing.status", result.status);
+        if (!result.success) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: result.errors[0]?.message,
+          });
+        }
+        return result;
+      },
+      extractTraceContext(job.trace)
+    );
+  }
+
+  private async runPipeline(
+    job: DocumentProcessingJob,
+    bullJob?: Job<DocumentProcessingJob>,
+    signal?: AbortSignal
   ): Promise<ProcessingResult> {
     const startTime = Date.now();
+    const startedAt = new Date(startTime);
     const result: ProcessingResult = {
       documentId: job.documentId,
       success: false,
@@ -33,263 +124,294 @@ export class DocumentProcessorService {
     try {
       this.logger.log(`Starting processing for document ${job.documentId}`);
 
-      // Step 1: Extract text if enabled
-      if (job.config.extractText) {
-        await this.updateProgress(
-          job.documentId,
-          10,
-          "Extracting text...",
-          bullJob
-        );
-        result.extractedText = await this.extractText(job);
+      if (job.reprocess) {
+        await this.loadBaseResult(job, result);
       }
 
-      // Step 2: Perform OCR if enabled
-      if (job.config.performOCR) {
-        await this.updateProgress(
-          job.documentId,
-          30,
-          "Performing OCR...",
-          bullJob
+      // Nothing reads the file before it passed intake
+      await this.updateProgress(job, bullJob, {
+        status: ProcessingStatus.PROCESSING,
+        progress: 0,
+        currentStep: "Validating file...",
+        startedAt,
+      });
+      const { contentHash, data, ...intake } = await withSpan(
+        "document.intake",
+        {},
+        () => this.intake.inspect(job)
+      );
+      result.contentHash = contentHash;
+      result.metadata = { ...result.metadata, intake };
+
+      const plan = job.reprocess
+        ? this.stepRegistry.planSteps(job.reprocess.steps)
+        : this.stepRegistry.plan(job.config);
+      const context: PipelineContext = { job, bullJob, result, data, signal };
+      const averageDurations = await this.durationStats.getAverages();
+      result.steps = [];
+
+      for (const [index, { step, progressStart }] of plan.entries()) {
+        if (signal?.aborted) {
+          break;
+        }
+        if (
+          bullJob &&
+          (await this.cancellation.isCancellationRequested(bullJob.id))
+        ) {
+          throw new JobCancelledError(
+            `Job was cancelled before step "${step.name}"`
+          );
+        }
+
+        await this.updateProgress(job, bullJob, {
+          status: ProcessingStatus.PROCESSING,
+          progress: progressStart,
+          currentStep: step.description,
+          startedAt,
+          estimatedTimeRemaining: this.durationStats.estimateRemaining(
+            averageDurations,
+            plan.slice(index).map((planned) => planned.step)
+          ),
+        });
+
+        const stepResult = await withSpan(
+          `step.${step.name}`,
+          { attributes: { "processing.step": step.name } },
+          async (span) => {
+            const stepResult =
+              (await this.reuseCachedOutputs(step, context)) ??
+              (await this.runStep(step, context));
+            span.setAttributes({
+              "processing.step.status": stepResult.status,
+              "processing.step.attempts": stepResult.attempts,
+              "processing.step.cached": !!stepResult.cached,
+            });
+            if (stepResult.error) {
+              span.setStatus({
+                code: SpanStatusCode.ERROR,
+                message: stepResult.error.message,
+              });
+            }
+            return stepResult;
+          }
         );
-        result.ocrText = await this.performOCR(job);
+        result.steps.push(stepResult);
+        if (stepResult.error) {
+          result.errors.push(stepResult.error);
+        }
       }
 
-      // Step 3: Extract keywords if enabled
-      if (job.config.extractKeywords) {
-        await this.updateProgress(
-          job.documentId,
-          50,
-          "Extracting keywords...",
-          bullJob
-        );
-        result.keywords = await this.extractKeywords(job, result.extractedText);
-      }
+      const failedSteps = result.steps.filter(
+        (step) => step.status !== StepStatus.COMPLETED
+      );
+      result.success = failedSteps.length === 0;
+      result.status = result.success
+        ? ProcessingStatus.COMPLETED
+        : ProcessingStatus.FAILED;
+      result.partial =
+        failedSteps.length > 0 && failedSteps.length < result.steps.length;
+      result.processingTime = Date.now() - startTime;
 
-      // Step 4: Generate summary if enabled
-      if (job.config.generateSummary) {
-        await this.updateProgress(
-          job.documentId,
-          70,
-          "Generating summary...",
-          bullJob
+      if (result.success) {
+        this.logger.log(
+          `Processing completed for document ${job.documentId} in ${result.processingTime}ms`
         );
-        result.summary = await this.generateSummary(job, result.extractedText);
-      }
-
-      // Step 5: Detect language if enabled
-      if (job.config.detectLanguage) {
-        await this.updateProgress(
-          job.documentId,
-          85,
-          "Detecting language...",
-          bullJob
+      } else {
+        this.logger.warn(
+          `Processing finished for document ${job.documentId} in ${result.processingTime}ms with failed steps: ${failedSteps
+            .map((step) => step.step)
+            .join(", ")}`
         );
-        result.language = await this.detectLanguage(result.extractedText);
       }
-
-      // Step 6: Enable search indexing if enabled
-      if (job.config.enableSearch) {
-        await this.updateProgress(
-          job.documentId,
-          95,
-          "Indexing for search...",
-          bullJob
-        );
-        await this.indexForSearch(job, result);
-      }
-
-      await this.updateProgress(
-        job.documentId,
-        100,
-        "Processing completed",
-        bullJob
-      );
-
-      result.success = true;
-      result.processingTime = Date.now() - startTime;
-
-      this.logger.log(
-        `Processing completed for document ${job.documentId} in ${result.processingTime}ms`
-      );
-
-      // Send callback to main backend
-      await this.sendProcessingCallback(job.documentId, result);
-
-      return result;
     } catch (error) {
       result.success = false;
-      result.errors = [error.message];
+      result.errors.push(toProcessingError(error));
       result.processingTime = Date.now() - startTime;
 
-      this.logger.error(
-        `Processing failed for document ${job.documentId}:`,
-        error
-      );
+      if (error instanceof JobCancelledError) {
+        result.status = ProcessingStatus.CANCELLED;
+        this.logger.log(`Processing cancelled for document ${job.documentId}`);
+      } else {
+        result.status = ProcessingStatus.FAILED;
+        this.logger.error(
+          `Processing failed for document ${job.documentId}:`,
+          error
+        );
+      }
+    }
 
-      // Send failure callback to main backend
-      await this.sendProcessingCallback(job.documentId, result);
+    this.throwIfRequeued(job, signal);
+    const transientFailure = this.isTransientFailure(result);
+    if (transientFailure && this.hasAttemptsLeft(bullJob)) {
+      // Nothing is stored or reported for an attempt that will be repeated
+      const [reason] = result.errors.filter((error) => error.transient);
+      this.metrics.recordJobRetry(reason.code);
+      await this.updateProgress(job, bullJob, {
+        status: ProcessingStatus.PENDING,
+        progress: 0,
+        currentStep: `Retrying after ${reason.code}...`,
+        startedAt,
+      });
+      throw new TransientJobError(result.errors);
+    }
 
-      return result;
+    await this.updateProgress(job, bullJob, {
+      status: result.status,
+      progress: 100,
+      currentStep: FINAL_STEP_MESSAGES[result.status],
+      startedAt,
+      completedAt: new Date(),
+      estimatedTimeRemaining: 0,
+      error: result.success ? undefined : result.errors[0]?.message,
+    });
+
+    this.throwIfRequeued(job, signal);
+    result.version = await this.resultStore.save(job, result, bullJob?.id);
+    this.throwIfRequeued(job, signal);
+    await this.callbackDispatcher.sendProcessingResult(
+      result,
+      bullJob?.id,
+      job.runId
+    );
+    if (job.batchId && bullJob) {
+      await this.batchJobs.recordResult(job, result, bullJob.id);
     }
-  }
 
-  private async extractText(job: DocumentProcessingJob): Promise<string> {
-    // Simulate text extraction based on file type
-    await this.delay(1000); // Simulate processing time
-
-    switch (job.fileType.toLowerCase()) {
-      case "pdf":
-        return `Extracted text from PDF: ${job.fileName}. This is sample extracted text content.`;
-      case "docx":
-      case "doc":
-        return `Extracted text from Word document: ${job.fileName}. This is sample extracted text content.`;
-      case "txt":
-        return `Text file content: ${job.fileName}. This is sample text file content.`;
-      default:
-        return `Generic text extraction from ${job.fileName}. This is sample extracted content.`;
+    // Out of attempts: failing the queue job dead-letters it for a replay
+    if (transientFailure && bullJob) {
+      throw new TransientJobError(result.errors);
     }
+    return result;
   }
 
-  private async performOCR(job: DocumentProcessingJob): Promise<string> {
-    // Simulate OCR processing
-    await this.delay(2000); // Simulate longer processing time for OCR
-
-    if (
-      ["jpg", "jpeg", "png", "tiff", "bmp"].includes(job.fileType.toLowerCase())
-    ) {
-      return `OCR text from image ${job.fileName}: This is sample OCR extracted text from the image.`;
+  private async runStep(
+    step: ProcessingStep,
+    context: PipelineContext
+  ): Promise<StepResult> {
+    const stepResult = await this.stepRunner.run(step, context);
+    if (this.isCacheable(step, context.job) && !stepResult.error) {
+      await this.stepCache.set(step, context);
     }
-
-    return `OCR processing not applicable for file type: ${job.fileType}`;
+    this.metrics.observeStepDuration(
+      step.name,
+      stepResult.status,
+      stepResult.durationMs
+    );
+    if (!stepResult.error) {
+      await this.durationStats.record(step.name, stepResult.durationMs);
+    }
+    return stepResult;
   }
 
-  private async extractKeywords(
-    job: DocumentProcessingJob,
-    text?: string
-  ): Promise<string[]> {
-    // Simulate keyword extraction
-    await this.delay(500);
-
-    if (!text) {
-      return ["document", "file", job.fileType];
+  /** Another worker runs a requeued job again, so this run reports nothing. */
+  private throwIfRequeued(job: DocumentProcessingJob, signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new JobRequeuedError(
+        `Processing of document ${job.documentId} was abandoned: the job was requeued`
+      );
     }
+  }
 
-    // Simple keyword extraction simulation
-    const words = text.toLowerCase().split(/\s+/);
-    const keywords = [...new Set(words)]
-      .filter((word) => word.length > 3)
-      .slice(0, 10);
+  /** Failed, and at least one error may not happen again on another attempt. */
+  private isTransientFailure(result: ProcessingResult): boolean {
+    return (
+      result.status === ProcessingStatus.FAILED &&
+      result.errors.some((error) => error.transient)
+    );
+  }
 
-    return keywords.length > 0 ? keywords : ["document", "content", "text"];
+  private hasAttemptsLeft(bullJob?: Job<DocumentProcessingJob>): boolean {
+    // attemptsMade counts the attempts that failed before this one
+    return !!bullJob && bullJob.attemptsMade + 1 < (bullJob.opts.attempts ?? 1);
   }
 
-  private async generateSummary(
+  /** Seeds `result` with the step outputs of the stored version being reprocessed. */
+  private async loadBaseResult(
     job: DocumentProcessingJob,
-    text?: string
-  ): Promise<string> {
-    // Simulate summary generation
-    await this.delay(1500);
-
-    if (!text) {
-      return `Summary for ${job.fileName}: This document contains content that could not be processed for summary generation.`;
+    result: ProcessingResult
+  ): Promise<void> {
+    const { baseVersion, steps } = job.reprocess;
+    const base = await this.resultStore.getVersion(job.documentId, baseVersion);
+    if (!base) {
+      throw new ResultNotFoundError(job.documentId, baseVersion);
     }
 
-    return `Summary for ${job.fileName}: This document contains ${text.length} characters of content. The main topics appear to be related to the document's primary subject matter.`;
+    const outputs = { ...base.result };
+    RUN_FIELDS.forEach((field) => delete outputs[field]);
+    Object.assign(result, outputs);
+
+    this.logger.log(
+      `Reprocessing document ${job.documentId} from version ${baseVersion}: ${steps.join(", ")}`
+    );
   }
 
-  private async detectLanguage(text?: string): Promise<string> {
-    // Simulate language detection
-    await this.delay(300);
+  private isCacheable(
+    step: ProcessingStep,
+    job: DocumentProcessingJob
+  ): boolean {
+    // A rerun is asked for explicitly, so it never reads from the cache
+    return !!step.cache && !job.reprocess && this.stepCache.isEnabled();
+  }
 
-    if (!text) {
-      return "unknown";
+  /**
+   * Copies the step's cached outputs into the result when an identical
+   * file has been through the step before.
+   */
+  private async reuseCachedOutputs(
+    step: ProcessingStep,
+    context: PipelineContext
+  ): Promise<StepResult | undefined> {
+    if (!this.isCacheable(step, context.job)) {
+      return undefined;
     }
 
-    // Simple language detection simulation
-    const englishWords = ["the", "and", "is", "in", "to", "of", "a", "that"];
-    const textLower = text.toLowerCase();
-    const englishCount = englishWords.filter((word) =>
-      textLower.includes(word)
-    ).length;
+    const startedAt = new Date();
+    const outputs = await this.stepCache.get(step, context);
+    this.metrics.recordStepCacheLookup(step.name, !!outputs);
+    if (!outputs) {
+      return undefined;
+    }
 
-    return englishCount > 3 ? "en" : "unknown";
+    Object.assign(context.result, outputs);
+    this.logger.log(
+      `Reused cached ${step.name} output for document ${context.job.documentId}`
+    );
+    return {
+      step: step.name,
+      status: StepStatus.COMPLETED,
+      attempts: 0,
+      durationMs: Date.now() - startedAt.getTime(),
+      startedAt,
+      cached: true,
+    };
   }
 
-  private async indexForSearch(
+  private async updateProgress(
     job: DocumentProcessingJob,
-    result: ProcessingResult
+    bullJob: Job<DocumentProcessingJob> | undefined,
+    update: Omit<ProcessingProgress, "jobId" | "documentId">
   ): Promise<void> {
-    // Simulate search indexing
-    await this.delay(800);
+    this.logger.log(
+      `Document ${job.documentId}: ${update.progress}% - ${update.currentStep}`
+    );
 
-    this.logger.log(`Indexed document ${job.documentId} for search`);
-
-    // In a real implementation, this would:
-    // 1. Send data to Elasticsearch/OpenSearch
-    // 2. Update search index
-    // 3. Create searchable metadata
-  }
-
-  private async updateProgress(
-    documentId: string,
-    progress: number,
-    step: string,
-    bullJob?: Job<DocumentProcessingJob>
-  ): Promise<void> {
-    this.logger.log(`Document ${documentId}: ${progress}% - ${step}`);
-
-    // Update Bull job progress if available
-    if (bullJob) {
-      try {
-        await bullJob.progress(progress);
-      } catch (error) {
-        this.logger.warn(`Failed to update job progress: ${error.message}`);
-      }
+    // Progress can only be tracked for jobs that came through the queue
+    if (!bullJob) {
+      return;
     }
-  }
 
-  private async sendProcessingCallback(
-    documentId: string,
-    result: ProcessingResult
-  ): Promise<void> {
     try {
-      const backendUrl = this.configService.get(
-        "MAIN_BACKEND_URL",
-        "http://localhost:8080"
-      );
-      const callbackUrl = `${backendUrl}/api/v1/processing/callback`;
-
-      await firstValueFrom(
-        this.httpService.post(
-          callbackUrl,
-          {
-            documentId,
-            result,
-          },
-          {
-            timeout: 10000,
-            headers: {
-              "Content-Type": "application/json",
-              "X-Service-Token": this.configService.get(
-                "SERVICE_TOKEN",
-                "processing-service-token"
-              ),
-            },
-          }
-        )
-      );
-
-      this.logger.log(`Callback sent for document ${documentId}`);
+      await bullJob.progress(update.progress);
     } catch (error) {
-      this.logger.error(
-        `Failed to send callback for document ${documentId}:`,
-        error.message
-      );
+      this.logger.warn(`Failed to update job progress: ${error.message}`);
     }
-  }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    await this.progressEvents.publish({
+      ...update,
+      jobId: String(bullJob.id),
+      documentId: job.documentId,
+      userId: job.userId,
+      timestamp: new Date(),
+    });
   }
 }
@@ -0,0 +1,152 @@
+import { ConfigService } from "@nestjs/config";
+import { Job, Queue } from "bull";
+import RedisMock from "ioredis-mock";
+import { DocumentProcessingJob, ProcessingConfig } from "../dto/processing.dto";
+import { FairSchedulerService } from "./fair-scheduler.service";
+
+function documentJob(
+  documentId: string,
+  priority: ProcessingConfig["priority"] = "normal",
+  userId = "user-1"
+): DocumentProcessingJob {
+  return {
+    documentId,
+    userId,
+    fileName: `${documentId}.txt`,
+    fileType: "text/plain",
+    fileSize: 10,
+    storagePath: `${documentId}.txt`,
+    config: {
+      extractText: true,
+      performOCR: false,
+      extractKeywords: false,
+      generateSummary: false,
+      detectLanguage: false,
+      enableSearch: false,
+      priority,
+    },
+    metadata: { uploadedAt: new Date() },
+  };
+}
+
+describe("FairSchedulerService", () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let add: jest.Mock;
+  let scheduler: FairSchedulerService;
+
+  /** Document ids in the order their jobs reached the queue. */
+  const admitted = () =>
+    add.mock.calls.map(
+      ([, data]: [string, DocumentProcessingJob]) => data.documentId
+    );
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    await redis.flushall();
+    add = jest.fn().mockResolvedValue(undefined);
+    scheduler = new FairSchedulerService(
+      { add, getJob: jest.fn() } as unknown as Queue<DocumentProcessingJob>,
+      new ConfigService({ USER_MAX_CONCURRENT_JOBS: 2 }),
+      redis as any
+    );
+  });
+
+  afterEach(() => redis.disconnect());
+
+  it("admits a user's jobs up to the concurrency cap and defers the rest", async () => {
+    const jobIds = [];
+    for (const documentId of ["a", "b", "c", "d"]) {
+      jobIds.push(await scheduler.submit(documentJob(documentId)));
+    }
+
+    expect(admitted()).toEqual(["a", "b"]);
+    expect(await scheduler.getBacklogLength("user-1")).toBe(2);
+    expect(await scheduler.getDeferred(jobIds[0])).toBeUndefined();
+    expect((await scheduler.getDeferred(jobIds[2]))?.data.documentId).toBe("c");
+  });
+
+  it("does not let one user's backlog hold back another user", async () => {
+    for (const documentId of ["a", "b", "c"]) {
+      await scheduler.submit(documentJob(documentId));
+    }
+    await scheduler.submit(documentJob("x", "normal", "user-2"));
+
+    expect(admitted()).toEqual(["a", "b", "x"]);
+  });
+
+  it("admits the next job by priority, then submission order, once a slot is released", async () => {
+    const first = await scheduler.submit(documentJob("a"));
+    await scheduler.submit(documentJob("b"));
+    await scheduler.submit(documentJob("low", "low"));
+    await scheduler.submit(documentJob("normal"));
+    await scheduler.submit(documentJob("high", "high"));
+
+    await scheduler.release("user-1", first);
+
+    expect(admitted()).toEqual(["a", "b", "high"]);
+  });
+
+  it("gives every submission a run id of its own", async () => {
+    await scheduler.submit(documentJob("a"));
+    await scheduler.submit(documentJob("a"));
+
+    const [[, firstRun], [, secondRun]] = add.mock.calls;
+    expect(firstRun.runId).toBeDefined();
+    expect(secondRun.runId).not.toBe(firstRun.runId);
+  });
+
+  it("lists a user's backlog in admission order", async () => {
+    for (const documentId of ["a", "b", "c", "d"]) {
+      await scheduler.submit(documentJob(documentId));
+    }
+
+    const deferred = await scheduler.listDeferred("user-1", 1, 5);
+    expect(deferred.map((job) => job.data.documentId)).toEqual(["d"]);
+  });
+
+  describe("removeDeferred", () => {
+    it("removes a job that is still in the backlog", async () => {
+      await scheduler.submit(documentJob("a"));
+      await scheduler.submit(documentJob("b"));
+      const jobId = await scheduler.submit(documentJob("c"));
+
+      expect(await scheduler.removeDeferred(jobId)).toBe(true);
+      expect(await scheduler.getDeferred(jobId)).toBeUndefined();
+      expect(await scheduler.getBacklogLength("user-1")).toBe(0);
+    });
+
+    it("leaves a job alone once admission took it from the backlog", async () => {
+      await scheduler.submit(documentJob("a"));
+      await scheduler.submit(documentJob("b"));
+      const jobId = await scheduler.submit(documentJob("c"));
+      // Admission has claimed the job but not yet added it to the queue
+      await redis.zrem("processing:fair:backlog:user-1", jobId);
+
+      expect(await scheduler.removeDeferred(jobId)).toBe(false);
+      expect((await scheduler.getDeferred(jobId))?.data.documentId).toBe("c");
+    });
+
+    it("returns false for a job that is not deferred", async () => {
+      const jobId = await scheduler.submit(documentJob("a"));
+
+      expect(await scheduler.removeDeferred(jobId)).toBe(false);
+    });
+  });
+
+  it("retries a failed job under its id as a new run outside its batch", async () => {
+    const remove = jest.fn().mockResolvedValue(undefined);
+    const failed = {
+      id: "job-1",
+      data: { ...documentJob("a"), batchId: "batch-1", runId: "run-1" },
+      remove,
+    } as unknown as Job<DocumentProcessingJob>;
+
+    await scheduler.retry(failed);
+
+    expect(remove).toHaveBeenCalled();
+    const [[, data, opts]] = add.mock.calls;
+    expect(opts.jobId).toBe("job-1");
+    expect(data.batchId).toBeUndefined();
+    expect(data.runId).not.toBe("run-1");
+  });
+});
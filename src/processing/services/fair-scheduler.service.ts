@@ -0,0 +1,386 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { InjectQueue } from "@nestjs/bull";
+import { ConfigService } from "@nestjs/config";
+import { Job, JobId, JobOptions, Queue } from "bull";
+import { randomUUID } from "crypto";
+import Redis from "ioredis";
+import { SpanKind } from "@opentelemetry/api";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+import { injectTraceContext, withSpan } from "../../tracing/tracing";
+import { DocumentProcessingJob, ProcessingConfig } from "../dto/processing.dto";
+
+const KEY_PREFIX = "processing:fair";
+const BACKLOG_JOBS_KEY = `${KEY_PREFIX}:jobs`;
+const BACKLOG_USERS_KEY = `${KEY_PREFIX}:backlog-users`;
+const INFLIGHT_USERS_KEY = `${KEY_PREFIX}:inflight-users`;
+const SEQUENCE_KEY = `${KEY_PREFIX}:sequence`;
+/** Backlog scores: priority first, then submission order within it. */
+const PRIORITY_SCORE_STEP = 1e12;
+
+/** Bull priorities: lower numbers are processed first. */
+export const JOB_PRIORITIES: Record<ProcessingConfig["priority"], number> = {
+  high: 1,
+  normal: 5,
+  low: 10,
+};
+
+/**
+ * Admits the head of a user's backlog when the user is below both the
+ * concurrency cap and the rate limit for the current window. Returns the
+ * job id and its backlog score.
+ * KEYS: backlog zset, in-flight zset, rate counter
+ * ARGV: concurrency cap, rate limit (0 = none), window seconds, now
+ */
+const ADMIT_SCRIPT = `
+local head = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local jobId = head[1]
+if not jobId then return false end
+if redis.call('ZCARD', KEYS[2]) >= tonumber(ARGV[1]) then return false end
+if tonumber(ARGV[2]) > 0 then
+  local count = tonumber(redis.call('GET', KEYS[3]) or '0')
+  if count >= tonumber(ARGV[2]) then return false end
+  redis.call('INCR', KEYS[3])
+  redis.call('EXPIRE', KEYS[3], ARGV[3])
+end
+redis.call('ZREM', KEYS[1], jobId)
+redis.call('ZADD', KEYS[2], ARGV[4], jobId)
+return head
+`;
+
+/** Forgets a user with an empty backlog. KEYS: backlog zset, users set */
+const FORGET_IF_EMPTY_SCRIPT = `
+if redis.call('ZCARD', KEYS[1]) == 0 then
+  redis.call('SREM', KEYS[2], ARGV[1])
+end
+return 1
+`;
+
+/**
+ * Drops a job from a backlog, keeping its entry when admission got there
+ * first so the admitting process can still enqueue it.
+ * KEYS: backlog zset, backlog jobs hash
+ */
+const REMOVE_DEFERRED_SCRIPT = `
+local removed = redis.call('ZREM', KEYS[1], ARGV[1])
+if removed == 1 then
+  redis.call('HDEL', KEYS[2], ARGV[1])
+end
+return removed
+`;
+
+interface BacklogEntry {
+  data: DocumentProcessingJob;
+  opts: JobOptions;
+  queuedAt: string;
+}
+
+export interface DeferredJob extends BacklogEntry {
+  jobId: string;
+}
+
+/**
+ * Per-user fair scheduling in front of the Bull queue.
+ *
+ * Submitted jobs wait in a per-user backlog in Redis, highest priority
+ * first and in submission order within a priority, and are only added to
+ * the queue while the user has fewer than `USER_MAX_CONCURRENT_JOBS` jobs
+ * in flight and has not used up `USER_RATE_LIMIT_MAX` admissions for the
+ * current `USER_RATE_LIMIT_WINDOW`. A user submitting thousands of
+ * documents therefore never holds more than a few queue slots.
+ */
+@Injectable()
+export class FairSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(FairSchedulerService.name);
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectQueue("document-processing")
+    private readonly documentQueue: Queue<DocumentProcessingJob>,
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get("FAIR_SCHEDULER_INTERVAL", 5000)
+    );
+    this.sweepTimer = setInterval(() => void this.sweep(), interval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Adds a job to the user's backlog and admits as much of the backlog as
+   * the user's limits allow. Returns the job id, which stays the same once
+   * the job reaches the queue. Once the job is in the backlog it counts as
+   * accepted: failing to admit it is left to the next sweep. Callers that
+   * record the id before submitting pass it as `jobId`.
+   */
+  async submit(
+    data: DocumentProcessingJob,
+    jobId: string = randomUUID()
+  ): Promise<string> {
+    // Starts the job's trace, or continues the batch's; the processing span
+    // of every attempt is a child of this one
+    return withSpan(
+      "document.enqueue",
+      {
+        kind: SpanKind.PRODUCER,
+        attributes: {
+          "processing.job_id": jobId,
+          "processing.document_id": data.documentId,
+          "processing.user_id": data.userId,
+        },
+      },
+      async () => {
+        await this.addToBacklog(jobId, {
+          ...data,
+          runId: randomUUID(),
+          trace: injectTraceContext(),
+        });
+        return jobId;
+      }
+    );
+  }
+
+  /**
+   * Runs a failed job again under its id, as a new run that waits for a
+   * slot like any new job. A retried batch document runs on its own,
+   * outside its batch, which already counted the failure.
+   */
+  async retry(job: Job<DocumentProcessingJob>): Promise<void> {
+    // Bull ignores adding a job id it still holds
+    await job.remove();
+    await this.submit({ ...job.data, batchId: undefined }, String(job.id));
+  }
+
+  /** A job still waiting for admission, if `jobId` is one. */
+  async getDeferred(jobId: JobId): Promise<DeferredJob | undefined> {
+    const raw = await this.redis.hget(BACKLOG_JOBS_KEY, String(jobId));
+    return raw ? { jobId: String(jobId), ...JSON.parse(raw) } : undefined;
+  }
+
+  /** Whether the job is waiting in a backlog or has reached the queue. */
+  async isSubmitted(jobId: JobId): Promise<boolean> {
+    return (
+      !!(await this.getDeferred(jobId)) ||
+      !!(await this.documentQueue.getJob(jobId))
+    );
+  }
+
+  async getBacklogLength(userId: string): Promise<number> {
+    return this.redis.zcard(this.backlogKey(userId));
+  }
+
+  /** A page of the user's backlog, in the order it will be admitted. */
+  async listDeferred(
+    userId: string,
+    offset = 0,
+    limit = 20
+  ): Promise<DeferredJob[]> {
+    const jobIds = await this.redis.zrange(
+      this.backlogKey(userId),
+      offset,
+      offset + limit - 1
+    );
+    const raw = jobIds.length
+      ? await this.redis.hmget(BACKLOG_JOBS_KEY, ...jobIds)
+      : [];
+    // Admitted between the two reads
+    return jobIds.flatMap((jobId, i) =>
+      raw[i] ? [{ jobId, ...JSON.parse(raw[i]) }] : []
+    );
+  }
+
+  /** Drops a job from the backlog. Returns false if it was already admitted. */
+  async removeDeferred(jobId: JobId): Promise<boolean> {
+    const deferred = await this.getDeferred(jobId);
+    if (!deferred) {
+      return false;
+    }
+
+    const removed = await this.redis.eval(
+      REMOVE_DEFERRED_SCRIPT,
+      2,
+      this.backlogKey(deferred.data.userId),
+      BACKLOG_JOBS_KEY,
+      deferred.jobId
+    );
+    return removed === 1;
+  }
+
+  /** Frees the user's slot for a finished job and admits the next one. */
+  async release(userId: string, jobId: JobId): Promise<void> {
+    try {
+      await this.redis.zrem(this.inflightKey(userId), String(jobId));
+      await this.drain(userId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to release slot of job ${jobId} for user ${userId}: ${error.message}`
+      );
+    }
+  }
+
+  private async addToBacklog(
+    jobId: string,
+    data: DocumentProcessingJob
+  ): Promise<void> {
+    const entry: BacklogEntry = {
+      data,
+      opts: {
+        jobId,
+        priority: JOB_PRIORITIES[data.config.priority] ?? JOB_PRIORITIES.normal,
+        // Only transient failures are retried; see DocumentProcessorService
+        attempts: 1 + Number(this.configService.get("RETRY_ATTEMPTS", 3)),
+        backoff: {
+          type: "exponential",
+          delay: Number(this.configService.get("RETRY_DELAY", 5000)),
+        },
+      },
+      queuedAt: new Date().toISOString(),
+    };
+
+    const sequence = await this.redis.incr(SEQUENCE_KEY);
+    await this.redis
+      .multi()
+      .hset(BACKLOG_JOBS_KEY, jobId, JSON.stringify(entry))
+      .zadd(
+        this.backlogKey(data.userId),
+        entry.opts.priority * PRIORITY_SCORE_STEP + sequence,
+        jobId
+      )
+      .sadd(BACKLOG_USERS_KEY, data.userId)
+      .exec();
+
+    try {
+      await this.drain(data.userId);
+    } catch (error) {
+      this.logger.warn(
+        `Job ${jobId} is in the backlog but could not be admitted yet: ${error.message}`
+      );
+    }
+  }
+
+  private async drain(userId: string): Promise<void> {
+    const concurrency = Number(
+      this.configService.get("USER_MAX_CONCURRENT_JOBS", 2)
+    );
+    const rateLimit = Number(this.configService.get("USER_RATE_LIMIT_MAX", 0));
+    const windowMs = Number(
+      this.configService.get("USER_RATE_LIMIT_WINDOW", 60000)
+    );
+
+    for (;;) {
+      const now = Date.now();
+      const window = Math.floor(now / windowMs);
+      const admitted = (await this.redis.eval(
+        ADMIT_SCRIPT,
+        3,
+        this.backlogKey(userId),
+        this.inflightKey(userId),
+        `${KEY_PREFIX}:rate:${userId}:${window}`,
+        concurrency,
+        rateLimit,
+        Math.ceil(windowMs / 1000),
+        now
+      )) as [string, string] | null;
+
+      if (!admitted) {
+        break;
+      }
+
+      const [jobId, score] = admitted;
+      await this.redis.sadd(INFLIGHT_USERS_KEY, userId);
+      await this.enqueue(userId, jobId, Number(score));
+    }
+
+    await this.redis.eval(
+      FORGET_IF_EMPTY_SCRIPT,
+      2,
+      this.backlogKey(userId),
+      BACKLOG_USERS_KEY,
+      userId
+    );
+  }
+
+  private async enqueue(
+    userId: string,
+    jobId: string,
+    score: number
+  ): Promise<void> {
+    const raw = await this.redis.hget(BACKLOG_JOBS_KEY, jobId);
+    if (!raw) {
+      // Cancelled between admission and enqueueing
+      await this.redis.zrem(this.inflightKey(userId), jobId);
+      return;
+    }
+
+    const entry: BacklogEntry = JSON.parse(raw);
+    try {
+      await this.documentQueue.add("process-document", entry.data, entry.opts);
+      await this.redis.hdel(BACKLOG_JOBS_KEY, jobId);
+      this.logger.log(`Admitted job ${jobId} for user ${userId}`);
+    } catch (error) {
+      // Put it back in its place in the backlog for the next sweep
+      await this.redis
+        .multi()
+        .zadd(this.backlogKey(userId), score, jobId)
+        .zrem(this.inflightKey(userId), jobId)
+        .sadd(BACKLOG_USERS_KEY, userId)
+        .exec();
+      throw error;
+    }
+  }
+
+  /**
+   * Safety net for missed releases (crashed workers, jobs removed from the
+   * queue directly) and rate-limit windows rolling over.
+   */
+  private async sweep(): Promise<void> {
+    try {
+      const graceMs = Number(
+        this.configService.get("FAIR_SCHEDULER_RECONCILE_AFTER", 60000)
+      );
+
+      for (const userId of await this.redis.smembers(INFLIGHT_USERS_KEY)) {
+        const stale = await this.redis.zrangebyscore(
+          this.inflightKey(userId),
+          0,
+          Date.now() - graceMs
+        );
+        for (const jobId of stale) {
+          const job = await this.documentQueue.getJob(jobId);
+          const state = job ? await job.getState() : undefined;
+          if (!state || state === "completed" || state === "failed") {
+            await this.redis.zrem(this.inflightKey(userId), jobId);
+          }
+        }
+        if ((await this.redis.zcard(this.inflightKey(userId))) === 0) {
+          await this.redis.srem(INFLIGHT_USERS_KEY, userId);
+        }
+      }
+
+      for (const userId of await this.redis.smembers(BACKLOG_USERS_KEY)) {
+        await this.drain(userId);
+      }
+    } catch (error) {
+      this.logger.warn(`Fair scheduler sweep failed: ${error.message}`);
+    }
+  }
+
+  private backlogKey(userId: string): string {
+    return `${KEY_PREFIX}:backlog:${userId}`;
+  }
+
+  private inflightKey(userId: string): string {
+    return `${KEY_PREFIX}:inflight:${userId}`;
+  }
+}
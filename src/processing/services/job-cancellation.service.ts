@@ -0,0 +1,35 @@
+import { Inject, Injectable } from "@nestjs/common";
+import Redis from "ioredis";
+import { JobId } from "bull";
+import { REDIS_CLIENT } from "../../redis/redis.constants";
+
+const CANCELLED_KEY_PREFIX = "processing:cancelled:";
+const CANCELLED_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Cancellation flags for jobs that are already running. The worker holding
+ * the job checks the flag between pipeline steps, so it works across
+ * processes. Flags are cleared once the job finishes; the TTL only covers
+ * workers that died first.
+ */
+@Injectable()
+export class JobCancellationService {
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async requestCancellation(jobId: JobId): Promise<void> {
+    await this.redis.set(
+      `${CANCELLED_KEY_PREFIX}${jobId}`,
+      new Date().toISOString(),
+      "EX",
+      CANCELLED_TTL_SECONDS
+    );
+  }
+
+  async isCancellationRequested(jobId: JobId): Promise<boolean> {
+    return (await this.redis.exists(`${CANCELLED_KEY_PREFIX}${jobId}`)) > 0;
+  }
+
+  async clear(jobId: JobId): Promise<void> {
+    await this.redis.del(`${CANCELLED_KEY_PREFIX}${jobId}`);
+  }
+}
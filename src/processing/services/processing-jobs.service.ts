@@ -0,0 +1,421 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectQueue } from "@nestjs/bull";
+import { Job, JobId, JobStatus, Queue } from "bull";
+import {
+  DocumentProcessingJob,
+  ProcessingProgress,
+  ProcessingResult,
+  ProcessingStatus,
+} from "../dto/processing.dto";
+import { JobCancellationService } from "./job-cancellation.service";
+import { CallbackDispatcherService } from "../callbacks/callback-dispatcher.service";
+import { ProgressEventsService } from "../progress/progress-events.service";
+import { DeferredJob, FairSchedulerService } from "./fair-scheduler.service";
+import { DeadLetterEntry, DeadLetterService } from "./dead-letter.service";
+import { BatchJobsService } from "./batch-jobs.service";
+import { ResultStoreService } from "../results/result-store.service";
+import { ProcessingStepRegistry } from "../pipeline/processing-step.registry";
+
+const STATUS_JOB_TYPES: Record<ProcessingStatus, JobStatus[]> = {
+  [ProcessingStatus.PENDING]: ["waiting", "delayed", "paused"],
+  [ProcessingStatus.PROCESSING]: ["active"],
+  [ProcessingStatus.COMPLETED]: ["completed"],
+  [ProcessingStatus.FAILED]: ["failed"],
+  [ProcessingStatus.CANCELLED]: ["completed"],
+};
+
+const ALL_JOB_TYPES: JobStatus[] = [
+  "waiting",
+  "delayed",
+  "paused",
+  "active",
+  "completed",
+  "failed",
+];
+
+const PENDING_STATES = ["waiting", "delayed", "paused"];
+
+/** Jobs fetched per request while scanning the queue for a page. */
+const LIST_SCAN_CHUNK = 200;
+
+@Injectable()
+export class ProcessingJobsService {
+  private readonly logger = new Logger(ProcessingJobsService.name);
+
+  constructor(
+    @InjectQueue("document-processing")
+    private readonly documentQueue: Queue<DocumentProcessingJob>,
+    private readonly cancellation: JobCancellationService,
+    private readonly callbackDispatcher: CallbackDispatcherService,
+    private readonly progressEvents: ProgressEventsService,
+    private readonly fairScheduler: FairSchedulerService,
+    private readonly deadLetters: DeadLetterService,
+    private readonly batchJobs: BatchJobsService,
+    private readonly resultStore: ResultStoreService,
+    private readonly stepRegistry: ProcessingStepRegistry
+  ) {}
+
+  async submit(data: DocumentProcessingJob): Promise<ProcessingProgress> {
+    const jobId = await this.fairScheduler.submit(data);
+    this.logger.log(`Submitted job ${jobId} for document ${data.documentId}`);
+
+    const progress = await this.getProgress(jobId);
+    await this.progressEvents.publish({
+      ...progress,
+      userId: data.userId,
+      timestamp: new Date(),
+    });
+    return progress;
+  }
+
+  /**
+   * Queues a job that reruns `steps` on top of the latest stored result of
+   * the document, with the job data and config that produced it. With
+   * `callerId`, documents of other users are reported as not found.
+   */
+  async reprocess(
+    documentId: string,
+    steps: string[],
+    callerId?: string
+  ): Promise<ProcessingProgress> {
+    const unknown = steps.filter((step) => !this.stepRegistry.get(step));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown processing steps: ${unknown.join(", ")}`
+      );
+    }
+
+    const latest = await this.resultStore.getLatest(documentId);
+    if (!latest || (callerId && latest.job.userId !== callerId)) {
+      throw new NotFoundException(
+        `No stored result for document ${documentId}`
+      );
+    }
+
+    return this.submit({
+      ...latest.job,
+      // Its batch has already counted the document's outcome
+      batchId: undefined,
+      reprocess: { baseVersion: latest.version, steps },
+    });
+  }
+
+  /** With `callerId`, jobs of other users are reported as not found. */
+  async getProgress(
+    jobId: JobId,
+    callerId?: string
+  ): Promise<ProcessingProgress> {
+    const job = await this.documentQueue.getJob(jobId);
+    if (job) {
+      this.checkOwner(jobId, job.data, callerId);
+      return this.toProgress(job);
+    }
+
+    const deferred = await this.fairScheduler.getDeferred(jobId);
+    if (deferred) {
+      this.checkOwner(jobId, deferred.data, callerId);
+      return this.deferredProgress(deferred);
+    }
+
+    const deadLetter = await this.deadLetters.get(jobId);
+    if (deadLetter) {
+      this.checkOwner(jobId, deadLetter.data, callerId);
+      return this.deadLetterProgress(deadLetter);
+    }
+
+    throw new NotFoundException(`Job ${jobId} not found`);
+  }
+
+  /**
+   * Jobs in `status`. With `userId`, only that user's jobs are paged over,
+   * starting with the ones still waiting in their backlog.
+   */
+  async list(
+    status?: ProcessingStatus,
+    offset = 0,
+    limit = 20,
+    userId?: string
+  ): Promise<ProcessingProgress[]> {
+    const page: ProcessingProgress[] = [];
+    let queueOffset = offset;
+    if (userId && (!status || status === ProcessingStatus.PENDING)) {
+      const backlogLength = await this.fairScheduler.getBacklogLength(userId);
+      const deferred = await this.fairScheduler.listDeferred(
+        userId,
+        offset,
+        limit
+      );
+      page.push(...deferred.map((entry) => this.deferredProgress(entry)));
+      queueOffset = Math.max(0, offset - backlogLength);
+    }
+
+    const jobs = await this.findJobs(
+      status,
+      queueOffset,
+      limit - page.length,
+      userId
+    );
+    page.push(
+      ...(await Promise.all(
+        jobs.map(({ job, state }) => this.toProgress(job, state))
+      ))
+    );
+    return page;
+  }
+
+  /**
+   * Pending jobs are removed from the backlog or queue straight away. Running jobs
+   * are flagged and stop before their next pipeline step.
+   */
+  async cancel(jobId: JobId, callerId?: string): Promise<ProcessingProgress> {
+    const deferred = await this.fairScheduler.getDeferred(jobId);
+    if (deferred) {
+      this.checkOwner(jobId, deferred.data, callerId);
+    }
+    if (deferred && (await this.fairScheduler.removeDeferred(jobId))) {
+      this.logger.log(`Removed deferred job ${jobId}`);
+      return this.reportCancelled(
+        deferred.jobId,
+        deferred.data,
+        this.deferredProgress(deferred)
+      );
+    }
+
+    const job = await this.findJob(jobId);
+    this.checkOwner(jobId, job.data, callerId);
+    const state = await job.getState();
+
+    if (PENDING_STATES.includes(state)) {
+      try {
+        await job.remove();
+        await this.fairScheduler.release(job.data.userId, job.id);
+        this.logger.log(`Removed pending job ${job.id}`);
+        return this.reportCancelled(
+          job.id,
+          job.data,
+          await this.toProgress(job, state)
+        );
+      } catch (error) {
+        // Picked up by a worker in the meantime: fall through to the flag
+        this.logger.warn(
+          `Could not remove job ${job.id}, flagging it instead: ${error.message}`
+        );
+      }
+    } else if (state !== "active") {
+      throw new ConflictException(
+        `Job ${jobId} has already finished and cannot be cancelled`
+      );
+    }
+
+    await this.cancellation.requestCancellation(job.id);
+    this.logger.log(`Cancellation requested for running job ${job.id}`);
+
+    return {
+      ...(await this.toProgress(job)),
+      currentStep: "Cancellation requested",
+    };
+  }
+
+  /** Tells the backend and progress subscribers about a job that never ran. */
+  private async reportCancelled(
+    jobId: JobId,
+    data: DocumentProcessingJob,
+    lastProgress: ProcessingProgress
+  ): Promise<ProcessingProgress> {
+    const result = this.cancelledResult(data.documentId);
+    await this.callbackDispatcher.sendProcessingResult(
+      result,
+      jobId,
+      data.runId
+    );
+    if (data.batchId) {
+      await this.batchJobs.recordResult(data, result, jobId);
+    }
+
+    const progress: ProcessingProgress = {
+      ...lastProgress,
+      status: ProcessingStatus.CANCELLED,
+      currentStep: "Cancelled",
+      completedAt: new Date(),
+    };
+    await this.progressEvents.publish({
+      ...progress,
+      userId: data.userId,
+      timestamp: new Date(),
+    });
+    return progress;
+  }
+
+  /**
+   * Scans the queue state by state for jobs in `status`, skipping the first
+   * `offset` matches, until `limit` of them are found.
+   */
+  private async findJobs(
+    status: ProcessingStatus | undefined,
+    offset: number,
+    limit: number,
+    userId?: string
+  ): Promise<{ job: Job<DocumentProcessingJob>; state: JobStatus }[]> {
+    const found: { job: Job<DocumentProcessingJob>; state: JobStatus }[] = [];
+    if (limit <= 0) {
+      return found;
+    }
+
+    let skip = offset;
+    for (const state of status ? STATUS_JOB_TYPES[status] : ALL_JOB_TYPES) {
+      for (let start = 0; ; start += LIST_SCAN_CHUNK) {
+        const jobs = await this.documentQueue.getJobs(
+          [state],
+          start,
+          start + LIST_SCAN_CHUNK - 1
+        );
+        for (const job of jobs) {
+          if (!this.isListed(job, status, userId)) {
+            continue;
+          }
+          if (skip > 0) {
+            skip--;
+            continue;
+          }
+          found.push({ job, state });
+          if (found.length === limit) {
+            return found;
+          }
+        }
+        if (jobs.length < LIST_SCAN_CHUNK) {
+          break;
+        }
+      }
+    }
+    return found;
+  }
+
+  private isListed(
+    job: Job<DocumentProcessingJob> | null,
+    status: ProcessingStatus | undefined,
+    userId?: string
+  ): boolean {
+    // Batch expansion jobs are reported by the batch endpoints
+    if (job?.name !== "process-document") {
+      return false;
+    }
+    if (userId && job.data.userId !== userId) {
+      return false;
+    }
+    // COMPLETED and CANCELLED share Bull's completed set
+    if (
+      status === ProcessingStatus.COMPLETED ||
+      status === ProcessingStatus.CANCELLED
+    ) {
+      const result = job.returnvalue as ProcessingResult | undefined;
+      return (result?.status ?? ProcessingStatus.COMPLETED) === status;
+    }
+    return true;
+  }
+
+  private async findJob(jobId: JobId): Promise<Job<DocumentProcessingJob>> {
+    const job = await this.documentQueue.getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  /** Hides other users' jobs as if they did not exist. */
+  private checkOwner(
+    jobId: JobId,
+    data: Pick<DocumentProcessingJob, "userId">,
+    callerId?: string
+  ): void {
+    if (callerId && data.userId !== callerId) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+  }
+
+  private async toProgress(
+    job: Job<DocumentProcessingJob>,
+    knownState?: string
+  ): Promise<ProcessingProgress> {
+    const state = knownState ?? (await job.getState());
+    const result = job.returnvalue as ProcessingResult | undefined;
+    const progress = job.progress();
+
+    let status: ProcessingStatus;
+    let currentStep: string;
+    let estimatedTimeRemaining: number | undefined;
+    if (state === "active") {
+      // Step name and ETA are only known to the worker running the job
+      const latest = await this.progressEvents.getLatest(job.id);
+      status = ProcessingStatus.PROCESSING;
+      currentStep = latest?.currentStep ?? "Processing";
+      estimatedTimeRemaining = latest?.estimatedTimeRemaining;
+    } else if (state === "completed") {
+      status = result?.status ?? ProcessingStatus.COMPLETED;
+      currentStep =
+        status === ProcessingStatus.CANCELLED
+          ? "Cancelled"
+          : "Processing completed";
+    } else if (state === "failed") {
+      status = ProcessingStatus.FAILED;
+      currentStep = "Failed";
+    } else {
+      status = ProcessingStatus.PENDING;
+      currentStep = "Queued";
+    }
+
+    return {
+      jobId: String(job.id),
+      documentId: job.data.documentId,
+      status,
+      progress: typeof progress === "number" ? progress : 0,
+      currentStep,
+      estimatedTimeRemaining,
+      startedAt: job.processedOn ? new Date(job.processedOn) : undefined,
+      completedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+      error: job.failedReason ?? result?.errors?.[0]?.message,
+    };
+  }
+
+  private deferredProgress(deferred: DeferredJob): ProcessingProgress {
+    return {
+      jobId: deferred.jobId,
+      documentId: deferred.data.documentId,
+      status: ProcessingStatus.PENDING,
+      progress: 0,
+      currentStep: "Waiting for a free processing slot",
+    };
+  }
+
+  private deadLetterProgress(entry: DeadLetterEntry): ProcessingProgress {
+    return {
+      jobId: entry.jobId,
+      documentId: entry.data.documentId,
+      status: ProcessingStatus.FAILED,
+      progress: 100,
+      currentStep: "Failed (dead-lettered)",
+      completedAt: new Date(entry.deadLetteredAt),
+      error: entry.failedReason,
+    };
+  }
+
+  private cancelledResult(documentId: string): ProcessingResult {
+    return {
+      documentId,
+      success: false,
+      status: ProcessingStatus.CANCELLED,
+      processingTime: 0,
+      errors: [
+        {
+          code: "JOB_CANCELLED",
+          message: "Job was cancelled before processing started",
+        },
+      ],
+    };
+  }
+}
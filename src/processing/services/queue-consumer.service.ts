@@ -1,37 +1,146 @@
-import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
-import { InjectQueue, Process, Processor } from "@nestjs/bull";
-import { Queue, Job } from "bull";
-import { HttpService } from "@nestjs/axios";
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { InjectQueue } from "@nestjs/bull";
 import { ConfigService } from "@nestjs/config";
-import { firstValueFrom } from "rxjs";
+import { setTimeout as delay } from "timers/promises";
+import { Queue, Job, JobId, JobStatusClean } from "bull";
 import { DocumentProcessorService } from "./document-processor.service";
-import { DocumentProcessingJob } from "../dto/processing.dto";
+import { FairSchedulerService } from "./fair-scheduler.service";
+import { JobCancellationService } from "./job-cancellation.service";
+import { DeadLetterService } from "./dead-letter.service";
+import { BatchJobsService } from "./batch-jobs.service";
+import {
+  DocumentProcessingJob,
+  ProcessingResult,
+  ProcessingStatus,
+} from "../dto/processing.dto";
+import { MetricsService } from "../../metrics/metrics.service";
+import {
+  JobRequeuedError,
+  TransientJobError,
+  isTransientError,
+  toProcessingError,
+} from "../errors/processing.errors";
 
+/** How the process was started; see `PROCESS_ROLE` in the README. */
+export type ProcessRole = "all" | "api" | "worker";
+
+/** `signal` is aborted when the job is requeued on shutdown. */
+type JobHandler = (job: Job, signal: AbortSignal) => Promise<unknown>;
+
+/** Queue a job name is consumed from, and its handler. */
+interface JobConsumer {
+  queue: Queue;
+  handler: JobHandler;
+}
+
+// Untyped in @types/bull; moves an active job to delayed, dropping its lock
+type RequeueableJob = Job & {
+  moveToDelayed(timestamp: number, ignoreLock?: boolean): Promise<void>;
+};
+
+/**
+ * Consumes the document and batch expansion queues unless the process runs
+ * with `PROCESS_ROLE=api`. Every job name has a queue of its own, since
+ * Bull pools the concurrency of the processors of one queue, so each gets
+ * its own limit: `QUEUE_<NAME>_CONCURRENCY` or else `MAX_CONCURRENT_JOBS`.
+ *
+ * On shutdown the consumer stops taking jobs and gives the active ones
+ * `SHUTDOWN_TIMEOUT` ms to finish. Jobs still running after that are
+ * aborted, so they neither store a result nor send a callback, and put
+ * back on the queue for another worker, without using up an attempt.
+ */
 @Injectable()
-@Processor("document-processing")
-export class QueueConsumerService implements OnModuleInit {
+export class QueueConsumerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(QueueConsumerService.name);
+  private readonly consumers: Record<string, JobConsumer>;
+  private readonly activeJobs = new Map<
+    JobId,
+    { job: Job; done: Promise<unknown>; abort: AbortController }
+  >();
+  private consuming = false;
 
   constructor(
     @InjectQueue("document-processing")
     private readonly documentQueue: Queue<DocumentProcessingJob>,
+    @InjectQueue("batch-expansion")
+    private readonly batchQueue: Queue,
     private readonly documentProcessor: DocumentProcessorService,
-    private readonly httpService: HttpService,
-    private readonly configService: ConfigService
-  ) {}
+    private readonly configService: ConfigService,
+    private readonly fairScheduler: FairSchedulerService,
+    private readonly cancellation: JobCancellationService,
+    private readonly deadLetters: DeadLetterService,
+    private readonly batchJobs: BatchJobsService,
+    private readonly metrics: MetricsService
+  ) {
+    this.consumers = {
+      "process-document": {
+        queue: this.documentQueue,
+        handler: (job, signal) => this.processDocument(job, signal),
+      },
+      "expand-batch": {
+        queue: this.batchQueue,
+        handler: (job) => this.batchJobs.expand(job),
+      },
+    };
+  }
 
   async onModuleInit() {
     this.logger.log("Queue consumer service initialized");
 
+    this.metrics.setQueueDepthCollector(async () => ({
+      ...(await this.documentQueue.getJobCounts()),
+    }));
+
     // Set up queue event listeners
-    this.documentQueue.on("completed", async (job: Job, result: any) => {
-      this.logger.log(`Job ${job.id} completed successfully`);
-      await this.sendCompletionCallback(job.data.documentId, result);
-    });
+    // Callbacks to the main backend are sent by DocumentProcessorService;
+    // "expand-batch" jobs run on their own queue, hold no slot and report
+    // through their batch
+    this.documentQueue.on(
+      "completed",
+      async (job: Job, result: ProcessingResult) => {
+        this.logger.log(`Job ${job.id} completed successfully`);
+        if (job.name !== "process-document") {
+          return;
+        }
+        this.metrics.recordJobOutcome(
+          job.data.fileType,
+          (result?.status ?? ProcessingStatus.COMPLETED).toLowerCase()
+        );
+        await this.finish(job);
+      }
+    );
 
     this.documentQueue.on("failed", async (job: Job, err: Error) => {
       this.logger.error(`Job ${job.id} failed:`, err.message);
-      await this.sendFailureCallback(job.data.documentId, err.message);
+      // Jobs that will be retried keep their user's slot; only jobs that
+      // failed for good are finished
+      if (job.name === "process-document" && job.finishedOn) {
+        this.metrics.recordJobOutcome(job.data.fileType, "failed");
+        await this.finish(job);
+        // The pipeline only reports to the batch when it produced a result
+        if (job.data.batchId) {
+          await this.batchJobs.recordFailure(
+            job.data,
+            job.id,
+            (err instanceof TransientJobError && err.errors[0]) ||
+              toProcessingError(err)
+          );
+        }
+        await this.deadLetters
+          .add(job, err)
+          .catch((error) =>
+            this.logger.error(
+              `Failed to dead-letter job ${job.id}: ${error.message}`
+            )
+          );
+      }
     });
 
     this.documentQueue.on("stalled", (job: Job) => {
@@ -41,10 +150,80 @@ export class QueueConsumerService implements OnModuleInit {
     this.documentQueue.on("progress", (job: Job, progress: number) => {
       this.logger.log(`Job ${job.id} progress: ${progress}%`);
     });
+
+    if (this.getRole() === "api") {
+      this.logger.log("PROCESS_ROLE is api; not consuming the queue");
+      return;
+    }
+    this.startConsuming();
+  }
+
+  /** Stops taking jobs, then waits for or requeues the ones in progress. */
+  async onModuleDestroy() {
+    if (!this.consuming) {
+      return;
+    }
+    this.consuming = false;
+
+    const timeout = Number(this.configService.get("SHUTDOWN_TIMEOUT", 30000));
+    // One deadline for everything, pausing included: it waits on Redis
+    const deadline = delay(timeout, undefined, { ref: false });
+
+    // Local pause: other workers keep going. Active jobs are awaited below.
+    await Promise.race([
+      Promise.all(
+        [this.documentQueue, this.batchQueue].map((queue) =>
+          queue
+            .pause(true, true)
+            .catch((error) =>
+              this.logger.warn(
+                `Failed to pause ${queue.name} consumer: ${error.message}`
+              )
+            )
+        )
+      ),
+      deadline,
+    ]);
+    if (!this.activeJobs.size) {
+      return;
+    }
+
+    this.logger.log(
+      `Shutting down: waiting up to ${timeout}ms for ${this.activeJobs.size} active job(s)`
+    );
+    const jobs = [...this.activeJobs.values()];
+    await Promise.race([
+      Promise.allSettled(jobs.map(({ done }) => done)),
+      deadline,
+    ]);
+
+    await Promise.all(
+      [...this.activeJobs.values()].map(({ job, abort }) => {
+        // Before the move: the job must not finish here once it is requeued
+        abort.abort();
+        return this.requeue(job);
+      })
+    );
   }
 
-  @Process("process-document")
-  async processDocument(job: Job<DocumentProcessingJob>) {
+  getRole(): ProcessRole {
+    return this.configService.get<ProcessRole>("PROCESS_ROLE", "all");
+  }
+
+  getConcurrency(jobName: string): number {
+    const key = jobName.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+    return Math.max(
+      1,
+      Number(
+        this.configService.get(
+          `QUEUE_${key}_CONCURRENCY`,
+          this.configService.get("MAX_CONCURRENT_JOBS", 5)
+        )
+      )
+    );
+  }
+
+  async processDocument(job: Job<DocumentProcessingJob>, signal?: AbortSignal) {
     this.logger.log(
       `Processing job ${job.id} for document ${job.data.documentId}`
     );
@@ -56,7 +235,8 @@ export class QueueConsumerService implements OnModuleInit {
       // Process the document with job instance for progress updates
       const result = await this.documentProcessor.processDocument(
         job.data,
-        job
+        job,
+        signal
       );
 
       // Update final progress
@@ -65,27 +245,25 @@ export class QueueConsumerService implements OnModuleInit {
       this.logger.log(`Job ${job.id} completed successfully`);
       return result;
     } catch (error) {
+      // Already back on the queue; neither a failure nor an attempt
+      if (error instanceof JobRequeuedError) {
+        this.logger.warn(error.message);
+        throw error;
+      }
       this.logger.error(`Job ${job.id} failed:`, error);
+      // Another attempt would fail the same way
+      if (!isTransientError(error)) {
+        job.discard();
+      }
       throw error;
     }
   }
 
+  /** Job counts per state; cheap enough for frequent health checks. */
   async getQueueStats() {
-    const [waiting, active, completed, failed, delayed] = await Promise.all([
-      this.documentQueue.getWaiting(),
-      this.documentQueue.getActive(),
-      this.documentQueue.getCompleted(),
-      this.documentQueue.getFailed(),
-      this.documentQueue.getDelayed(),
-    ]);
-
-    return {
-      waiting: waiting.length,
-      active: active.length,
-      completed: completed.length,
-      failed: failed.length,
-      delayed: delayed.length,
-    };
+    const { waiting, active, completed, failed, delayed } =
+      await this.documentQueue.getJobCounts();
+    return { waiting, active, completed, failed, delayed };
   }
 
   async getActiveJobs() {
@@ -114,97 +292,143 @@ export class QueueConsumerService implements OnModuleInit {
     this.logger.log("Queue resumed");
   }
 
-  async cleanQueue() {
-    await this.documentQueue.clean(5000, "completed" as any);
-    await this.documentQueue.clean(5000, "failed" as any);
-    this.logger.log("Queue cleaned");
+  /**
+   * Removes jobs in the given state that finished more than `grace` ms ago.
+   * Without a status both completed and failed jobs are cleaned. Returns
+   * the number of removed jobs.
+   */
+  async cleanQueue(
+    grace: number = Number(
+      this.configService.get("QUEUE_CLEAN_GRACE", 3600000)
+    ),
+    status?: JobStatusClean,
+    limit?: number
+  ): Promise<number> {
+    const statuses: JobStatusClean[] = status
+      ? [status]
+      : ["completed", "failed"];
+    let removed = 0;
+
+    for (const state of statuses) {
+      const jobs = await this.documentQueue.clean(grace, state, limit);
+      removed += jobs.length;
+    }
+
+    this.logger.log(
+      `Queue cleaned: removed ${removed} ${statuses.join("/")} jobs older than ${grace}ms`
+    );
+    return removed;
+  }
+
+  async retryJob(jobId: JobId) {
+    const job = await this.findJob(jobId);
+    if (!(await job.isFailed())) {
+      throw new ConflictException(`Job ${jobId} is not in the failed state`);
+    }
+    await this.fairScheduler.retry(job);
+    this.logger.log(`Job ${jobId} queued for retry`);
   }
 
-  private async sendCompletionCallback(documentId: string, result: any) {
-    try {
-      const backendUrl = this.configService.get("MAIN_BACKEND_URL");
-      const serviceToken = this.configService.get("SERVICE_TOKEN");
+  async retryAllFailed(): Promise<number> {
+    const failed = await this.documentQueue.getFailed();
+    let retried = 0;
 
-      if (!backendUrl || !serviceToken) {
-        this.logger.warn("Missing backend URL or service token for callback");
-        return;
+    for (const job of failed) {
+      try {
+        await this.fairScheduler.retry(job);
+        retried++;
+      } catch (error) {
+        this.logger.warn(`Failed to retry job ${job.id}: ${error.message}`);
       }
+    }
+    this.logger.log(`Queued ${retried} failed jobs for retry`);
+    return retried;
+  }
 
-      const callbackData = {
-        documentId,
-        result: {
-          success: true,
-          processingTime: result.processingTime || 0,
-          extractedText: result.extractedText,
-          ocrText: result.ocrText,
-          keywords: result.keywords,
-          summary: result.summary,
-          language: result.language,
-        },
-      };
-
-      await firstValueFrom(
-        this.httpService.post(
-          `${backendUrl}/api/v1/processing/callback`,
-          callbackData,
-          {
-            headers: {
-              "x-service-token": serviceToken,
-              "Content-Type": "application/json",
-            },
-            timeout: 10000,
-          }
-        )
-      );
+  async promoteJob(jobId: JobId) {
+    const job = await this.findJob(jobId);
+    if (!(await job.isDelayed())) {
+      throw new ConflictException(`Job ${jobId} is not delayed`);
+    }
+    await job.promote();
+    this.logger.log(`Job ${jobId} promoted`);
+  }
 
-      this.logger.log(`Completion callback sent for document ${documentId}`);
-    } catch (error) {
-      this.logger.error(
-        `Failed to send completion callback for document ${documentId}:`,
-        error.message
+  async promoteAllDelayed(): Promise<number> {
+    const delayed = await this.documentQueue.getDelayed();
+    await Promise.all(delayed.map((job) => job.promote()));
+    this.logger.log(`Promoted ${delayed.length} delayed jobs`);
+    return delayed.length;
+  }
+
+  async removeJob(jobId: JobId) {
+    const job = await this.findJob(jobId);
+    if (await job.isActive()) {
+      throw new ConflictException(
+        `Job ${jobId} is being processed; cancel it instead`
       );
     }
+    await job.remove();
+    await this.fairScheduler.release(job.data.userId, job.id);
+    this.logger.log(`Job ${jobId} removed`);
   }
 
-  private async sendFailureCallback(documentId: string, errorMessage: string) {
-    try {
-      const backendUrl = this.configService.get("MAIN_BACKEND_URL");
-      const serviceToken = this.configService.get("SERVICE_TOKEN");
+  private async findJob(jobId: JobId): Promise<Job<DocumentProcessingJob>> {
+    const job = await this.documentQueue.getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+    return job;
+  }
 
-      if (!backendUrl || !serviceToken) {
-        this.logger.warn("Missing backend URL or service token for callback");
-        return;
-      }
+  private startConsuming(): void {
+    this.consuming = true;
+
+    for (const [name, { queue, handler }] of Object.entries(this.consumers)) {
+      const concurrency = this.getConcurrency(name);
+      // Resolves only once the queue closes, so it is not awaited
+      queue
+        .process(name, concurrency, (job: Job) => this.track(job, handler))
+        .catch((error) =>
+          this.logger.error(
+            `Processing "${name}" jobs stopped: ${error.message}`
+          )
+        );
+      this.logger.log(
+        `Processing "${name}" jobs with concurrency ${concurrency}`
+      );
+    }
+  }
 
-      const callbackData = {
-        documentId,
-        result: {
-          success: false,
-          processingTime: 0,
-          errors: [errorMessage],
-        },
-      };
-
-      await firstValueFrom(
-        this.httpService.post(
-          `${backendUrl}/api/v1/processing/callback`,
-          callbackData,
-          {
-            headers: {
-              "x-service-token": serviceToken,
-              "Content-Type": "application/json",
-            },
-            timeout: 10000,
-          }
+  /** Frees the user's slot and drops the cancellation flag of a finished job. */
+  private async finish(job: Job<DocumentProcessingJob>): Promise<void> {
+    await this.fairScheduler.release(job.data.userId, job.id);
+    await this.cancellation
+      .clear(job.id)
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to clear cancellation of job ${job.id}: ${error.message}`
         )
       );
+  }
 
-      this.logger.log(`Failure callback sent for document ${documentId}`);
+  private track(job: Job, handler: JobHandler): Promise<unknown> {
+    const abort = new AbortController();
+    const done = handler(job, abort.signal).finally(() =>
+      this.activeJobs.delete(job.id)
+    );
+    this.activeJobs.set(job.id, { job, done, abort });
+    return done;
+  }
+
+  /** Hands an unfinished job back to the queue; it keeps its attempt count. */
+  private async requeue(job: Job): Promise<void> {
+    try {
+      await (job as RequeueableJob).moveToDelayed(Date.now());
+      this.logger.warn(`Job ${job.id} did not finish in time and was requeued`);
     } catch (error) {
-      this.logger.error(
-        `Failed to send failure callback for document ${documentId}:`,
-        error.message
-      );
+      // Its lock expires and another worker recovers it as stalled
+      this.logger.error(`Failed to requeue job ${job.id}: ${error.message}`);
     }
   }
 }
@@ -0,0 +1,118 @@
+import { Injectable } from "@nestjs/common";
+import { getStopwords } from "../text/stopwords";
+import { isNumeric, splitSentences, tokenize } from "../text/tokenizer";
+import {
+  Summarizer,
+  SummaryOptions,
+  SummaryOutput,
+} from "./summarizer.interface";
+
+/** Sentences shorter than this are headings or fragments, not summary material. */
+const MIN_SENTENCE_WORDS = 5;
+/** Very long "sentences" are usually tables or lists the segmenter could not split. */
+const MAX_SENTENCE_WORDS = 80;
+/** Share of content words two sentences may have in common before one is dropped. */
+const MAX_OVERLAP = 0.6;
+/** Boost for the opening sentences, which tend to state what a document is about. */
+const LEAD_BONUS = 0.25;
+
+interface ScoredSentence {
+  index: number;
+  text: string;
+  words: Set<string>;
+  score: number;
+}
+
+/**
+ * Frequency-based extractive summarizer: sentences are scored by how many
+ * of the document's frequent content words they contain, and the best ones
+ * are returned in their original order. Runs fully offline.
+ */
+@Injectable()
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = "extractive";
+
+  async summarize(
+    text: string,
+    { sentences: count, language }: SummaryOptions
+  ): Promise<SummaryOutput> {
+    const stopwords = getStopwords(language);
+    const contentWords = (sentence: string) =>
+      tokenize(sentence).filter(
+        (word) => !stopwords.has(word) && !isNumeric(word) && word.length > 2
+      );
+
+    const sentences = splitSentences(text).map((sentence, index) => ({
+      index,
+      text: sentence,
+      tokens: tokenize(sentence).length,
+      words: contentWords(sentence),
+    }));
+    if (sentences.length <= count) {
+      return { summary: sentences.map((s) => s.text).join(" ") };
+    }
+
+    const frequency = new Map<string, number>();
+    sentences
+      .flatMap((sentence) => sentence.words)
+      .forEach((word) => frequency.set(word, (frequency.get(word) ?? 0) + 1));
+    const maxFrequency = Math.max(1, ...frequency.values());
+
+    const candidates = sentences.filter(
+      (sentence) =>
+        sentence.tokens >= MIN_SENTENCE_WORDS &&
+        sentence.tokens <= MAX_SENTENCE_WORDS
+    );
+    const pool = candidates.length >= count ? candidates : sentences;
+
+    const scored: ScoredSentence[] = pool.map((sentence) => {
+      const unique = new Set(sentence.words);
+      const weight = [...unique].reduce(
+        (sum, word) => sum + frequency.get(word)! / maxFrequency,
+        0
+      );
+      const position = 1 - sentence.index / sentences.length;
+      return {
+        index: sentence.index,
+        text: sentence.text,
+        words: unique,
+        score:
+          (weight / Math.sqrt(Math.max(1, sentence.words.length))) *
+          (1 + LEAD_BONUS * position),
+      };
+    });
+
+    return { summary: this.select(scored, count) };
+  }
+
+  private select(scored: ScoredSentence[], count: number): string {
+    const chosen: ScoredSentence[] = [];
+
+    for (const sentence of [...scored].sort((a, b) => b.score - a.score)) {
+      if (chosen.length >= count) {
+        break;
+      }
+      const redundant = chosen.some(
+        (other) => this.overlap(sentence.words, other.words) > MAX_OVERLAP
+      );
+      if (!redundant) {
+        chosen.push(sentence);
+      }
+    }
+
+    return chosen
+      .sort((a, b) => a.index - b.index)
+      .map((sentence) => sentence.text)
+      .join(" ");
+  }
+
+  private overlap(a: Set<string>, b: Set<string>): number {
+    const smaller = a.size <= b.size ? a : b;
+    const larger = smaller === a ? b : a;
+    if (!smaller.size) {
+      return 0;
+    }
+    const shared = [...smaller].filter((word) => larger.has(word)).length;
+    return shared / smaller.size;
+  }
+}
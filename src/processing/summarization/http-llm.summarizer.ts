@@ -0,0 +1,73 @@
+import { Injectable } from "@nestjs/common";
+import { HttpService } from "@nestjs/axios";
+import { ConfigService } from "@nestjs/config";
+import { firstValueFrom } from "rxjs";
+import {
+  Summarizer,
+  SummaryOptions,
+  SummaryOutput,
+} from "./summarizer.interface";
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Summarizes through an OpenAI-compatible chat completions endpoint
+ * (`AI_MODEL_ENDPOINT`), e.g. a hosted model or a local vLLM/Ollama server.
+ */
+@Injectable()
+export class HttpLlmSummarizer implements Summarizer {
+  readonly name = "llm";
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async summarize(
+    text: string,
+    { sentences, language, signal }: SummaryOptions
+  ): Promise<SummaryOutput> {
+    const endpoint = this.configService.get<string>("AI_MODEL_ENDPOINT");
+    if (!endpoint) {
+      throw new Error("AI_MODEL_ENDPOINT is not configured");
+    }
+
+    const apiKey = this.configService.get<string>("AI_API_KEY");
+    const maxInput = Number(
+      this.configService.get("AI_MAX_INPUT_CHARS", 20000)
+    );
+    const instruction =
+      `Summarize the following document in at most ${sentences} sentences` +
+      (language ? `, writing in the document's language (${language})` : "") +
+      ". Reply with the summary only.";
+
+    const response = await firstValueFrom(
+      this.httpService.post<ChatCompletionResponse>(
+        endpoint,
+        {
+          model: this.configService.get("AI_MODEL", "gpt-4o-mini"),
+          temperature: 0.2,
+          messages: [
+            { role: "system", content: instruction },
+            { role: "user", content: text.slice(0, maxInput) },
+          ],
+        },
+        {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+          timeout: Number(this.configService.get("AI_TIMEOUT", 30000)),
+          signal,
+        }
+      )
+    );
+
+    const summary = response.data.choices?.[0]?.message?.content?.trim();
+    if (!summary) {
+      throw new Error("LLM response did not contain a summary");
+    }
+
+    return { summary, model: response.data.model };
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable } from "@nestjs/common";
+import { splitSentences } from "../text/tokenizer";
+import {
+  Summarizer,
+  SummaryOptions,
+  SummaryOutput,
+} from "./summarizer.interface";
+
+/**
+ * Stands in for the LLM summarizer in local development and tests
+ * (`AI_SUMMARIZER=stub`): returns the leading sentences without any
+ * network call, so the `llm` method can be exercised offline.
+ */
+@Injectable()
+export class StubLlmSummarizer implements Summarizer {
+  readonly name = "llm";
+
+  async summarize(
+    text: string,
+    { sentences }: SummaryOptions
+  ): Promise<SummaryOutput> {
+    return {
+      summary: splitSentences(text).slice(0, sentences).join(" "),
+      model: "stub",
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { ConfigService } from "@nestjs/config";
+import { ExtractiveSummarizer } from "./extractive.summarizer";
+import { HttpLlmSummarizer } from "./http-llm.summarizer";
+import { StubLlmSummarizer } from "./stub-llm.summarizer";
+import { SummarizationService } from "./summarization.service";
+
+const TEXT = [
+  "The quarterly report shows revenue growth across every region this year.",
+  "Revenue in the northern region grew faster than in any other region.",
+  "Costs stayed flat while the number of customers kept growing steadily.",
+  "The board expects revenue growth to continue during the next quarter.",
+].join(" ");
+
+function service(config: Record<string, string>): SummarizationService {
+  return new SummarizationService(
+    new ExtractiveSummarizer(),
+    {} as HttpLlmSummarizer,
+    new StubLlmSummarizer(),
+    new ConfigService(config)
+  );
+}
+
+describe("SummarizationService", () => {
+  it("uses the stub as the LLM summarizer when configured", async () => {
+    const summarization = service({
+      AI_ENABLED: "true",
+      AI_SUMMARIZER: "stub",
+    });
+
+    const outcome = await summarization.summarize(TEXT, { sentences: 2 });
+
+    expect(summarization.getMethods()).toEqual(["extractive", "llm"]);
+    expect(outcome.method).toBe("llm");
+    expect(outcome.model).toBe("stub");
+    expect(outcome.summary).toBe(
+      "The quarterly report shows revenue growth across every region this year. Revenue in the northern region grew faster than in any other region."
+    );
+  });
+
+  it("falls back to the extractive summary when the LLM is not enabled", async () => {
+    const outcome = await service({}).summarize(TEXT, {
+      method: "llm",
+      sentences: 1,
+    });
+
+    expect(outcome.method).toBe("extractive");
+    expect(outcome.fallbackReason).toBe('Summarizer "llm" is not available');
+  });
+
+  it("falls back to the extractive summary when the LLM fails", async () => {
+    const summarization = service({
+      AI_ENABLED: "true",
+      AI_SUMMARIZER: "stub",
+    });
+    jest
+      .spyOn(StubLlmSummarizer.prototype, "summarize")
+      .mockRejectedValueOnce(new Error("rate limited"));
+
+    const outcome = await summarization.summarize(TEXT, { sentences: 1 });
+
+    expect(outcome.method).toBe("extractive");
+    expect(outcome.fallbackReason).toBe("llm summarizer failed: rate limited");
+  });
+
+  it("sizes the summary by ratio of the document's sentences", async () => {
+    const summarization = service({
+      AI_ENABLED: "true",
+      AI_SUMMARIZER: "stub",
+    });
+
+    const outcome = await summarization.summarize(TEXT, { ratio: 0.5 });
+
+    expect(outcome.summary.split(". ")).toHaveLength(2);
+  });
+});
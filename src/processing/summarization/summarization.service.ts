@@ -0,0 +1,127 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { splitSentences } from "../text/tokenizer";
+import { Summarizer, SummaryOutput } from "./summarizer.interface";
+import { ExtractiveSummarizer } from "./extractive.summarizer";
+import { HttpLlmSummarizer } from "./http-llm.summarizer";
+import { StubLlmSummarizer } from "./stub-llm.summarizer";
+
+export interface SummarizeRequest {
+  /** Summarizer to use; defaults to `SUMMARY_METHOD`. */
+  method?: string;
+  /** Summary length in sentences; takes precedence over `ratio`. */
+  sentences?: number;
+  /** Summary length as a share of the document's sentences (0-1). */
+  ratio?: number;
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface SummarizeOutcome extends SummaryOutput {
+  /** Summarizer that produced the summary. */
+  method: string;
+  /** Why the requested summarizer was not used, when it was not. */
+  fallbackReason?: string;
+}
+
+/**
+ * Picks a summarizer for each document. The extractive summarizer is always
+ * available and is the fallback when the requested one is not registered or
+ * fails; the LLM summarizer is registered when `AI_ENABLED=true`.
+ */
+@Injectable()
+export class SummarizationService {
+  private readonly logger = new Logger(SummarizationService.name);
+  private readonly summarizers = new Map<string, Summarizer>();
+
+  constructor(
+    private readonly extractiveSummarizer: ExtractiveSummarizer,
+    httpLlmSummarizer: HttpLlmSummarizer,
+    stubLlmSummarizer: StubLlmSummarizer,
+    private readonly configService: ConfigService
+  ) {
+    this.register(extractiveSummarizer);
+
+    if (this.configService.get("AI_ENABLED", "false") === "true") {
+      this.register(
+        this.configService.get("AI_SUMMARIZER", "http") === "stub"
+          ? stubLlmSummarizer
+          : httpLlmSummarizer
+      );
+    }
+  }
+
+  /** Registers a summarizer, replacing any registered under the same name. */
+  register(summarizer: Summarizer): void {
+    this.summarizers.set(summarizer.name, summarizer);
+  }
+
+  getMethods(): string[] {
+    return [...this.summarizers.keys()];
+  }
+
+  async summarize(
+    text: string,
+    request: SummarizeRequest = {}
+  ): Promise<SummarizeOutcome> {
+    const method =
+      request.method ??
+      this.configService.get("SUMMARY_METHOD") ??
+      (this.summarizers.has("llm") ? "llm" : this.extractiveSummarizer.name);
+    const options = {
+      sentences: this.resolveLength(text, request),
+      language: request.language,
+      signal: request.signal,
+    };
+
+    const summarizer = this.summarizers.get(method);
+    if (!summarizer) {
+      return this.fallback(
+        text,
+        options,
+        `Summarizer "${method}" is not available`
+      );
+    }
+    if (summarizer === this.extractiveSummarizer) {
+      return { ...(await summarizer.summarize(text, options)), method };
+    }
+
+    // Only external summarizers fall back; extractive errors are real failures
+    try {
+      return { ...(await summarizer.summarize(text, options)), method };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      return this.fallback(
+        text,
+        options,
+        `${method} summarizer failed: ${error.message}`
+      );
+    }
+  }
+
+  private async fallback(
+    text: string,
+    options: { sentences: number; language?: string },
+    reason: string
+  ): Promise<SummarizeOutcome> {
+    this.logger.warn(`${reason}; using extractive summary`);
+    const output = await this.extractiveSummarizer.summarize(text, options);
+    return {
+      ...output,
+      method: this.extractiveSummarizer.name,
+      fallbackReason: reason,
+    };
+  }
+
+  private resolveLength(text: string, { sentences, ratio }: SummarizeRequest) {
+    if (sentences) {
+      return sentences;
+    }
+    if (ratio) {
+      return Math.max(1, Math.round(splitSentences(text).length * ratio));
+    }
+    return Number(this.configService.get("SUMMARY_SENTENCES", 3));
+  }
+}
@@ -0,0 +1,19 @@
+export interface SummaryOptions {
+  /** Number of sentences to aim for. */
+  sentences: number;
+  /** ISO 639-1 code of the document language, when known. */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface SummaryOutput {
+  summary: string;
+  /** Model that produced the summary, for summarizers backed by one. */
+  model?: string;
+}
+
+export interface Summarizer {
+  /** Method name, selected by `ProcessingConfig.summaryMethod`. */
+  readonly name: string;
+  summarize(text: string, options: SummaryOptions): Promise<SummaryOutput>;
+}
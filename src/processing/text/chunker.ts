@@ -0,0 +1,74 @@
+import { sentenceSpans, TextSpan } from "./tokenizer";
+
+export interface TextChunk extends TextSpan {
+  text: string;
+}
+
+/**
+ * Splits text into passages of about `size` characters on sentence
+ * boundaries. Consecutive passages share up to `overlap` characters of
+ * whole sentences so a match spanning a boundary is still found; sentences
+ * longer than `size` are cut at whitespace.
+ */
+export function chunkText(
+  text: string,
+  size: number,
+  overlap = 0
+): TextChunk[] {
+  const sentences = sentenceSpans(text).flatMap((span) =>
+    span.end - span.start > size ? splitLongSpan(text, span, size) : [span]
+  );
+  const chunks: TextChunk[] = [];
+  let current: TextSpan[] = [];
+
+  const emit = () => {
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    chunks.push({ start, end, text: text.slice(start, end) });
+  };
+
+  for (const sentence of sentences) {
+    if (current.length && sentence.end - current[0].start > size) {
+      emit();
+      // Carry trailing sentences into the next passage as overlap
+      const carried: TextSpan[] = [];
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (current[current.length - 1].end - current[i].start > overlap) {
+          break;
+        }
+        carried.unshift(current[i]);
+      }
+      current =
+        carried.length < current.length &&
+        sentence.end - (carried[0]?.start ?? sentence.start) <= size
+          ? carried
+          : [];
+    }
+    current.push(sentence);
+  }
+  if (current.length) {
+    emit();
+  }
+
+  return chunks;
+}
+
+function splitLongSpan(text: string, span: TextSpan, size: number): TextSpan[] {
+  const pieces: TextSpan[] = [];
+  let start = span.start;
+
+  while (span.end - start > size) {
+    const cut = text.lastIndexOf(" ", start + size);
+    const end = cut > start ? cut : start + size;
+    pieces.push({ start, end });
+    start = end;
+    while (start < span.end && /\s/.test(text[start])) {
+      start++;
+    }
+  }
+  if (start < span.end) {
+    pieces.push({ start, end: span.end });
+  }
+
+  return pieces;
+}
@@ -0,0 +1,101 @@
+/**
+ * Function words per language (ISO 639-1), used to split key-phrase
+ * candidates and keep them out of keyword results. The lists are kept short
+ * on purpose: TF-IDF already pushes other frequent words down.
+ */
+const STOPWORD_LISTS: Record<string, string> = {
+  en: `a about above after again against all also am an and any are aren't as at be
+    because been before being below between both but by can can't cannot could
+    did didn't do does doesn't doing don't down during each either else etc
+    few for from further had has hasn't have haven't having he her here hers
+    herself him himself his how however i if in into is isn't it it's its itself
+    just let me more most must my myself no nor not now of off on once only or
+    other our ours ourselves out over own per same shall she should so some
+    such than that that's the their theirs them themselves then there these
+    they this those through thus to too under until up upon us very via was
+    wasn't we were weren't what when where whether which while who whom whose
+    why will with within without would yet you your yours yourself yourselves`,
+  de: `aber alle allem allen aller alles als also am an ander andere anderem
+    anderen anderer anderes auch auf aus bei bin bis bist da damit dann das
+    dass dein deine dem den denn der des dessen deshalb die dies diese diesem
+    diesen dieser dieses doch dort du durch ein eine einem einen einer eines
+    er es etwa euer eure für gegen gewesen hab habe haben hat hatte hatten
+    hier hin hinter ich ihm ihn ihnen ihr ihre im in indem ins ist jede jedem
+    jeden jeder jedes jene jetzt kann kein keine können man mein meine mich
+    mir mit muss nach nicht nichts noch nun nur ob oder ohne sehr sein seine
+    sich sie sind so solche soll sondern sonst über um und uns unser unter
+    vom von vor war waren warum was weil welche wenn wer werden wie wieder
+    will wir wird wo zu zum zur zwar zwischen`,
+  fr: `ai aie alors au aucun aussi autre aux avec avoir avons bon car ce cela
+    ces cet cette ceux chaque ci comme comment dans de des donc dont du elle
+    elles en encore est et étaient était été être eu eux fait faire il ils je
+    la le les leur leurs lui ma mais me même mes moi mon ne ni nos notre nous
+    on ont ou où par pas peu peut plus pour pourquoi quand que quel quelle
+    quelles quels qui sa sans se ses si son sont sous sur ta te tes toi ton
+    tous tout toute toutes très tu un une vos votre vous y`,
+  es: `a al algo algunas algunos ante antes como con contra cual cuando de del
+    desde donde durante e el ella ellas ellos en entre era eran es esa esas
+    ese eso esos esta estaba estado estas este esto estos fue fueron ha han
+    hasta hay la las le les lo los más me mi mis mucho muy nada ni no nos
+    nosotros o otra otras otro otros para pero poco por porque que quien se
+    sea ser si sin sobre son su sus también tan tanto te tiene todo todos tu
+    tus un una uno unos y ya yo`,
+  it: `a agli ai al alla alle allo anche avere c che chi ci come con contro cui
+    da dal dalla dalle degli dei del dell della delle dello di dove e è ed
+    era erano essere gli ha hanno i il in io la le lei li lo loro lui ma mi
+    mio molto ne negli nei nel nella nelle noi non nostro o per perché più
+    poi quale quando quella quelle quello questa queste questi questo se sei
+    si sia sono su sua sue sui sul sulla suo suoi tra tu tutti tutto un una
+    uno vi voi`,
+  pt: `a ao aos as até com como da das de dela dele deles depois do dos e ela
+    elas ele eles em entre era eram essa essas esse esses esta estas este
+    estes eu foi foram há isso isto já la mais mas me mesmo meu minha muito
+    na nas nem no nos nós o os ou para pela pelas pelo pelos por qual quando
+    que quem se sem ser seu seus só sua suas também te tem um uma umas uns
+    você`,
+  nl: `aan al alles als altijd andere ben bij daar dan dat de der deze die dit
+    doch doen door dus een eens en er ge geen geweest haar had heb hebben heeft
+    hem het hier hij hoe hun iemand iets ik in is ja je kan kon kunnen maar
+    me meer men met mij mijn moet na naar niet niets nog nu of om omdat onder
+    ons ook op over reeds te tegen toch toen tot u uit uw van veel voor want
+    waren was wat werd wezen wie wij wil worden wordt zal ze zelf zich zij
+    zijn zo zonder zou`,
+  sv: `alla allt att av blev bli blir de dem den denna deras dess det detta dig
+    din dina ditt du där efter ej eller en er era ert ett från för ha hade
+    han hans har henne hennes hon honom hur här i icke ingen inom inte jag
+    ju kan kunde man med mellan men mig min mina mitt mot mycket ni nu när
+    någon något några och om oss på samma sedan sig sin sina sitt själv
+    skulle som så sådan till under upp ut utan vad var vara varför varit vi
+    vid vilka vilken vilket vår våra vårt än är åt över`,
+  pl: `a aby ale bez bo być był była były było by będzie co czy dla do gdy gdzie
+    i ich ile im inne iż ja jak jakie jako je jego jej jest jeszcze jeśli już
+    ją każdy kiedy kto która które którego który lub ma mi może na nad nam
+    nas nie niż o od oraz po pod przed przez przy się sobie są ta tak także
+    te tego tej ten to tu tym w we wiele z za ze że`,
+  hi: `अंदर अत अपना अपनी अपने अभी आदि आप इसके इसका इसकी इस इसी इन इनका इनके उन
+    उनका उनकी उनके उस उसके उसका उसकी उसी ऊपर एक एवं ऐसे और कई कर करता करते करना
+    करने करें कहते कहा का काफ़ी कि किया किसी की कुछ के को कोई कौन गया घर जब जहाँ
+    जा जिस जिसे जैसा जैसे जो तक तब तरह तो था थी थे दिया दो न ना नहीं ने पर
+    पहले पूरा फिर बहुत भी में यदि यह यहाँ यही या ये रहा रही रहे लिए लेकिन वह
+    वहाँ वाले वे सकता सकते सबसे सभी साथ से हम हुआ हुई हुए है हैं हो होता होती
+    होने`,
+};
+
+const STOPWORDS = new Map<string, ReadonlySet<string>>(
+  Object.entries(STOPWORD_LISTS).map(([language, words]) => [
+    language,
+    new Set(words.split(/\s+/).filter(Boolean)),
+  ])
+);
+
+const EMPTY = new Set<string>();
+
+/** Stopwords for a language code such as "en" or "en-GB"; empty when unknown. */
+export function getStopwords(language?: string): ReadonlySet<string> {
+  const base = language?.toLowerCase().split(/[-_]/)[0];
+  return (base && STOPWORDS.get(base)) || EMPTY;
+}
+
+export function getStopwordLanguages(): string[] {
+  return [...STOPWORDS.keys()];
+}
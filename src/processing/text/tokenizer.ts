@@ -0,0 +1,76 @@
+import { ProcessingResult } from "../dto/processing.dto";
+
+/** Runs of letters/digits (with combining marks for Indic scripts), allowing inner ' and -. */
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+const NUMBER_PATTERN = /^[\p{N}.,'’-]+$/u;
+
+/** Text the analysis steps work on: the extracted text, else the OCR output. */
+export function getDocumentText(result: ProcessingResult): string {
+  return (result.extractedText || result.ocrText || "").trim();
+}
+
+/** ISO 639-1 code set by the language step, when it ran and found one. */
+export function getDocumentLanguage(
+  result: ProcessingResult
+): string | undefined {
+  return result.language && result.language !== "unknown"
+    ? result.language
+    : undefined;
+}
+
+/** Lower-cased words of `text`, in order. */
+export function tokenize(text: string): string[] {
+  return (text.toLocaleLowerCase().match(WORD_PATTERN) ?? []).map((token) =>
+    token.replace(/’/g, "'")
+  );
+}
+
+export function isNumeric(token: string): boolean {
+  return NUMBER_PATTERN.test(token);
+}
+
+/**
+ * Sentence ends (., !, ?, Devanagari danda) followed by whitespace, or blank
+ * lines. Single line breaks are not boundaries: extracted PDF text wraps
+ * lines mid-sentence.
+ */
+const SENTENCE_BOUNDARY = /(?<=[.!?।॥…]["'”’)\]]*)\s+|\n\s*\n/;
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/** Character ranges of the sentences in `text`, excluding the whitespace between them. */
+export function sentenceSpans(text: string): TextSpan[] {
+  const boundary = new RegExp(SENTENCE_BOUNDARY.source, "g");
+  const spans: TextSpan[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (end: number) => {
+    const sentence = text.slice(start, end);
+    const leading = sentence.length - sentence.trimStart().length;
+    if (sentence.trim()) {
+      spans.push({
+        start: start + leading,
+        end: start + sentence.trimEnd().length,
+      });
+    }
+  };
+
+  while ((match = boundary.exec(text))) {
+    push(match.index);
+    start = match.index + match[0].length;
+  }
+  push(text.length);
+
+  return spans;
+}
+
+/** Sentences of `text` with inner whitespace collapsed. */
+export function splitSentences(text: string): string[] {
+  return sentenceSpans(text).map(({ start, end }) =>
+    text.slice(start, end).replace(/\s+/g, " ")
+  );
+}
@@ -0,0 +1,28 @@
+import { parentPort } from "worker_threads";
+import { CpuTaskName, runCpuTask } from "./cpu-tasks";
+
+export interface CpuTaskRequest {
+  id: number;
+  task: CpuTaskName;
+  payload: unknown;
+}
+
+export interface CpuTaskResponse {
+  id: number;
+  result?: unknown;
+  error?: { name: string; message: string; stack?: string };
+}
+
+// Entry point of the pool's worker threads: one task at a time, in order
+parentPort?.on("message", async ({ id, task, payload }: CpuTaskRequest) => {
+  let response: CpuTaskResponse;
+  try {
+    response = { id, result: await runCpuTask(task, payload as never) };
+  } catch (error) {
+    response = {
+      id,
+      error: { name: error.name, message: error.message, stack: error.stack },
+    };
+  }
+  parentPort.postMessage(response);
+});
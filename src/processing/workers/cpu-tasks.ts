@@ -0,0 +1,104 @@
+import { DocumentProcessingJob } from "../dto/processing.dto";
+import {
+  ExtractedContent,
+  TextExtractor,
+} from "../extractors/text-extractor.interface";
+import { PlainTextExtractor } from "../extractors/plain-text.extractor";
+import { MarkdownExtractor } from "../extractors/markdown.extractor";
+import { CsvExtractor } from "../extractors/csv.extractor";
+import { HtmlExtractor } from "../extractors/html.extractor";
+import { PdfExtractor } from "../extractors/pdf.extractor";
+import { DocxExtractor } from "../extractors/docx.extractor";
+import {
+  LanguageDetection,
+  LanguageDetectorService,
+} from "../language/language-detector.service";
+
+/**
+ * Extractors a worker thread can build on its own. Extractors registered
+ * from elsewhere may depend on injected services, so they always run on
+ * the main thread.
+ */
+const THREAD_EXTRACTORS = [
+  PlainTextExtractor,
+  MarkdownExtractor,
+  CsvExtractor,
+  HtmlExtractor,
+  PdfExtractor,
+  DocxExtractor,
+];
+
+let extractors: Map<string, TextExtractor> | undefined;
+let languageDetector: LanguageDetectorService | undefined;
+
+/**
+ * CPU-bound work that runs in the worker thread pool. Every task takes and
+ * returns structured-cloneable values, since both cross a thread boundary;
+ * Buffers arrive as plain Uint8Arrays.
+ */
+export const CPU_TASKS = {
+  "extract-text": async ({
+    extractor,
+    data,
+    job,
+  }: {
+    extractor: string;
+    data: Uint8Array;
+    job: DocumentProcessingJob;
+  }): Promise<ExtractedContent> => {
+    extractors ??= new Map(
+      THREAD_EXTRACTORS.map((type) => {
+        const instance = new type();
+        return [instance.name, instance];
+      })
+    );
+    const instance = extractors.get(extractor);
+    if (!instance) {
+      throw new Error(`No "${extractor}" extractor in worker threads`);
+    }
+    return instance.extract(toBuffer(data), job);
+  },
+
+  "detect-language-sections": async ({
+    text,
+    sectionSize,
+  }: {
+    text: string;
+    sectionSize: number;
+  }): Promise<LanguageDetection> => {
+    languageDetector ??= new LanguageDetectorService();
+    return languageDetector.detectSections(text, sectionSize);
+  },
+};
+
+export type CpuTaskName = keyof typeof CPU_TASKS;
+export type CpuTaskPayload<T extends CpuTaskName> = Parameters<
+  (typeof CPU_TASKS)[T]
+>[0];
+export type CpuTaskResult<T extends CpuTaskName> = Awaited<
+  ReturnType<(typeof CPU_TASKS)[T]>
+>;
+
+/** Whether `extractor` is a built-in one the "extract-text" task can run. */
+export function canExtractInThread(extractor: TextExtractor): boolean {
+  return THREAD_EXTRACTORS.some((type) => extractor.constructor === type);
+}
+
+export function runCpuTask<T extends CpuTaskName>(
+  task: T,
+  payload: CpuTaskPayload<T>
+): Promise<CpuTaskResult<T>> {
+  const run = CPU_TASKS[task] as (
+    payload: CpuTaskPayload<T>
+  ) => Promise<CpuTaskResult<T>>;
+  if (!run) {
+    return Promise.reject(new Error(`Unknown CPU task "${task}"`));
+  }
+  return run(payload);
+}
+
+function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.isBuffer(data)
+    ? data
+    : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -0,0 +1,201 @@
+import { Injectable, Logger, OnApplicationShutdown } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { availableParallelism } from "os";
+import { extname, join } from "path";
+import { Worker } from "worker_threads";
+import {
+  CpuTaskName,
+  CpuTaskPayload,
+  CpuTaskResult,
+  runCpuTask,
+} from "./cpu-tasks";
+import { CpuTaskRequest, CpuTaskResponse } from "./cpu-task.worker";
+
+interface PendingTask {
+  request: CpuTaskRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface PoolThread {
+  worker: Worker;
+  task?: PendingTask;
+}
+
+/**
+ * Runs `CPU_TASKS` on a pool of `CPU_WORKER_THREADS` worker threads, so
+ * parsing and detection on large documents do not block the event loop
+ * that renews queue locks and serves HTTP. Threads start on first use.
+ *
+ * Aborting a running task terminates its thread, which is the only way to
+ * stop synchronous work; a fresh thread replaces it when needed. With
+ * `CPU_WORKER_THREADS=0` tasks run on the main thread.
+ */
+@Injectable()
+export class WorkerPoolService implements OnApplicationShutdown {
+  private readonly logger = new Logger(WorkerPoolService.name);
+  private readonly threads: PoolThread[] = [];
+  private readonly queue: PendingTask[] = [];
+  private readonly size: number;
+  private nextId = 0;
+  private closed = false;
+
+  constructor(configService: ConfigService) {
+    this.size = Number(
+      configService.get(
+        "CPU_WORKER_THREADS",
+        Math.max(0, availableParallelism() - 1)
+      )
+    );
+  }
+
+  // Runs after the queue consumer has let active jobs finish
+  async onApplicationShutdown() {
+    this.closed = true;
+    this.queue
+      .splice(0)
+      .forEach((task) =>
+        this.settle(task, undefined, new Error("Worker pool is shutting down"))
+      );
+    await Promise.all(
+      this.threads.splice(0).map((thread) => thread.worker.terminate())
+    );
+  }
+
+  run<T extends CpuTaskName>(
+    task: T,
+    payload: CpuTaskPayload<T>,
+    signal?: AbortSignal
+  ): Promise<CpuTaskResult<T>> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this.size <= 0) {
+      return runCpuTask(task, payload);
+    }
+    if (this.closed) {
+      return Promise.reject(new Error("Worker pool is shutting down"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingTask = {
+        request: { id: ++this.nextId, task, payload },
+        resolve,
+        reject,
+        signal,
+      };
+      if (signal) {
+        pending.onAbort = () => this.abort(pending);
+        signal.addEventListener("abort", pending.onAbort, { once: true });
+      }
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length && !this.closed) {
+      const thread =
+        this.threads.find((candidate) => !candidate.task) ??
+        (this.threads.length < this.size ? this.spawn() : undefined);
+      if (!thread) {
+        return;
+      }
+
+      thread.task = this.queue.shift();
+      thread.worker.postMessage(thread.task.request);
+    }
+  }
+
+  private spawn(): PoolThread {
+    const thread: PoolThread = { worker: createWorker() };
+    // Idle threads must not keep the process alive
+    thread.worker.unref();
+
+    thread.worker.on("message", (response: CpuTaskResponse) => {
+      const task = thread.task;
+      if (task?.request.id !== response.id) {
+        return;
+      }
+      thread.task = undefined;
+      this.settle(task, response.result, response.error && toError(response));
+      this.dispatch();
+    });
+
+    thread.worker.on("error", (error) =>
+      this.logger.error(`Worker thread failed: ${error.message}`)
+    );
+
+    thread.worker.on("exit", (code) => {
+      this.remove(thread);
+      if (thread.task) {
+        this.settle(
+          thread.task,
+          undefined,
+          new Error(`Worker thread exited with code ${code}`)
+        );
+        thread.task = undefined;
+      }
+      this.dispatch();
+    });
+
+    this.threads.push(thread);
+    return thread;
+  }
+
+  private abort(task: PendingTask): void {
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    }
+
+    const thread = this.threads.find((candidate) => candidate.task === task);
+    if (thread) {
+      // Taken out of the pool right away; its exit must not settle the task again
+      this.remove(thread);
+      thread.task = undefined;
+      void thread.worker.terminate();
+    }
+
+    this.settle(task, undefined, task.signal.reason);
+    this.dispatch();
+  }
+
+  private settle(task: PendingTask, result: unknown, error?: unknown): void {
+    if (task.onAbort) {
+      task.signal.removeEventListener("abort", task.onAbort);
+    }
+    if (error) {
+      task.reject(error);
+    } else {
+      task.resolve(result);
+    }
+  }
+
+  private remove(thread: PoolThread): void {
+    const index = this.threads.indexOf(thread);
+    if (index >= 0) {
+      this.threads.splice(index, 1);
+    }
+  }
+}
+
+function createWorker(): Worker {
+  const file = join(__dirname, `cpu-task.worker${extname(__filename)}`);
+  // Under ts-node the thread has to compile the sources itself
+  return extname(file) === ".ts"
+    ? new Worker(
+        `require("ts-node/register/transpile-only");\nrequire(${JSON.stringify(file)});`,
+        { eval: true }
+      )
+    : new Worker(file);
+}
+
+function toError({ error }: CpuTaskResponse): Error {
+  return Object.assign(new Error(error.message), {
+    name: error.name,
+    stack: error.stack,
+  });
+}
@@ -0,0 +1,48 @@
+import { Inject, Logger, Module, OnApplicationShutdown } from "@nestjs/common";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import Redis from "ioredis";
+import { REDIS_CLIENT } from "./redis.constants";
+
+/**
+ * Shared Redis connection for service state kept outside of Bull (callback
+ * outbox, caches, counters). Uses the same settings as the queue.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: REDIS_CLIENT,
+      useFactory: (configService: ConfigService) => {
+        const logger = new Logger(RedisModule.name);
+        const client = new Redis({
+          host: configService.get("REDIS_HOST", "localhost"),
+          port: Number(configService.get("REDIS_PORT", 6379)),
+          password: configService.get("REDIS_PASSWORD") || undefined,
+          db: Number(configService.get("REDIS_DB", 0)),
+          connectTimeout: Number(
+            configService.get("REDIS_CONNECTION_TIMEOUT", 5000)
+          ),
+          commandTimeout: Number(
+            configService.get("REDIS_COMMAND_TIMEOUT", 5000)
+          ),
+          maxRetriesPerRequest: Number(
+            configService.get("REDIS_MAX_RETRIES", 3)
+          ),
+        });
+        client.on("error", (error) =>
+          logger.warn(`Redis connection error: ${error.message}`)
+        );
+        return client;
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [REDIS_CLIENT],
+})
+export class RedisModule implements OnApplicationShutdown {
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async onApplicationShutdown() {
+    await this.redis.quit();
+  }
+}
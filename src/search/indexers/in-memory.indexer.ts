@@ -0,0 +1,66 @@
+import { Injectable } from "@nestjs/common";
+import {
+  SearchHit,
+  SearchIndexer,
+  SearchPassage,
+} from "./search-indexer.interface";
+
+/**
+ * Keeps passages in process memory, for tests and local development
+ * without a search cluster. Search is a plain term-overlap ranking.
+ */
+@Injectable()
+export class InMemorySearchIndexer implements SearchIndexer {
+  readonly name = "memory";
+  private readonly documents = new Map<string, SearchPassage[]>();
+
+  async ensureIndex(): Promise<void> {}
+
+  async replaceDocument(
+    documentId: string,
+    passages: SearchPassage[]
+  ): Promise<void> {
+    this.documents.set(documentId, [...passages]);
+  }
+
+  async deleteDocument(documentId: string, userId?: string): Promise<number> {
+    const passages = this.documents.get(documentId) ?? [];
+    if (userId && passages.some((passage) => passage.userId !== userId)) {
+      return 0;
+    }
+    this.documents.delete(documentId);
+    return passages.length;
+  }
+
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    const terms = this.terms(query);
+
+    return [...this.documents.values()]
+      .flat()
+      .map((passage) => {
+        const words = this.terms(passage.text);
+        const score = terms.reduce(
+          (sum, term) => sum + words.filter((word) => word === term).length,
+          0
+        );
+        return { passage, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ passage, score }) => ({
+        documentId: passage.documentId,
+        passageIndex: passage.passageIndex,
+        text: passage.text,
+        score,
+      }));
+  }
+
+  getPassages(documentId: string): SearchPassage[] {
+    return this.documents.get(documentId) ?? [];
+  }
+
+  private terms(text: string): string[] {
+    return text.toLocaleLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  }
+}
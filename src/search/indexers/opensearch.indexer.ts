@@ -0,0 +1,219 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { HttpService } from "@nestjs/axios";
+import { ConfigService } from "@nestjs/config";
+import { AxiosRequestConfig } from "axios";
+import { firstValueFrom } from "rxjs";
+import {
+  SearchHit,
+  SearchIndexer,
+  SearchPassage,
+} from "./search-indexer.interface";
+import {
+  SEARCH_INDEX_MAPPING,
+  SEARCH_MAPPING_VERSION,
+} from "../search-mappings";
+import { SearchError, SearchErrorCode } from "../search.errors";
+
+/**
+ * Indexes passages into OpenSearch or Elasticsearch over their REST API
+ * (`SEARCH_URL`), one search document per passage with id
+ * `<documentId>:<passageIndex>`.
+ */
+@Injectable()
+export class OpenSearchIndexer implements SearchIndexer {
+  private readonly logger = new Logger(OpenSearchIndexer.name);
+  readonly name = "opensearch";
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService
+  ) {}
+
+  private get index(): string {
+    return this.configService.get("SEARCH_INDEX", "documents");
+  }
+
+  async ensureIndex(): Promise<void> {
+    const existing = await this.request<Record<string, any>>(
+      { method: "GET", url: `/${this.index}/_mapping` },
+      [404]
+    );
+
+    if (!existing) {
+      await this.request({
+        method: "PUT",
+        url: `/${this.index}`,
+        data: { mappings: SEARCH_INDEX_MAPPING },
+      });
+      this.logger.log(`Created search index ${this.index}`);
+      return;
+    }
+
+    // The response is keyed by the concrete index name, which may differ for an alias
+    const [mappings] = Object.values(existing).map((entry) => entry.mappings);
+    const version = Number(mappings?._meta?.version ?? 0);
+    if (version < SEARCH_MAPPING_VERSION) {
+      await this.request({
+        method: "PUT",
+        url: `/${this.index}/_mapping`,
+        data: {
+          _meta: SEARCH_INDEX_MAPPING._meta,
+          properties: SEARCH_INDEX_MAPPING.properties,
+        },
+      });
+      this.logger.log(
+        `Updated search index ${this.index} mapping to version ${SEARCH_MAPPING_VERSION}`
+      );
+    }
+  }
+
+  async replaceDocument(
+    documentId: string,
+    passages: SearchPassage[]
+  ): Promise<void> {
+    if (passages.length) {
+      const body =
+        passages
+          .flatMap((passage) => [
+            JSON.stringify({
+              index: {
+                _index: this.index,
+                _id: `${documentId}:${passage.passageIndex}`,
+              },
+            }),
+            JSON.stringify(passage),
+          ])
+          .join("\n") + "\n";
+
+      const response = await this.request<{ errors: boolean; items: any[] }>({
+        method: "POST",
+        url: "/_bulk",
+        data: body,
+        headers: { "Content-Type": "application/x-ndjson" },
+      });
+
+      if (response.errors) {
+        const failed = response.items.find((item) => item.index?.error);
+        throw new SearchError(
+          SearchErrorCode.REJECTED,
+          `Search index rejected passages of document ${documentId}: ${
+            failed?.index?.error?.reason ?? "unknown error"
+          }`
+        );
+      }
+    }
+
+    // Passages left over from a longer previous version of the document
+    await this.deleteByQuery({
+      bool: {
+        filter: [
+          { term: { documentId } },
+          { range: { passageIndex: { gte: passages.length } } },
+        ],
+      },
+    });
+  }
+
+  async deleteDocument(documentId: string, userId?: string): Promise<number> {
+    return this.deleteByQuery(
+      userId
+        ? {
+            bool: {
+              filter: [{ term: { documentId } }, { term: { userId } }],
+            },
+          }
+        : { term: { documentId } }
+    );
+  }
+
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    const response = await this.request<{ hits: { hits: any[] } }>({
+      method: "POST",
+      url: `/${this.index}/_search`,
+      data: {
+        size: limit,
+        query: { match: { text: query } },
+        _source: ["documentId", "passageIndex", "text"],
+      },
+    });
+
+    return response.hits.hits.map((hit) => ({
+      documentId: hit._source.documentId,
+      passageIndex: hit._source.passageIndex,
+      text: hit._source.text,
+      score: hit._score,
+    }));
+  }
+
+  async ping(): Promise<void> {
+    await this.request({ method: "GET", url: "/_cluster/health" });
+  }
+
+  private async deleteByQuery(query: Record<string, any>): Promise<number> {
+    const response = await this.request<{ deleted: number }>(
+      {
+        method: "POST",
+        url: `/${this.index}/_delete_by_query?refresh=true&conflicts=proceed`,
+        data: { query },
+      },
+      [404]
+    );
+    return response?.deleted ?? 0;
+  }
+
+  /**
+   * Sends a request to the search cluster. Statuses in `allowedStatuses`
+   * resolve to `undefined` instead of throwing.
+   */
+  private async request<T = any>(
+    config: AxiosRequestConfig,
+    allowedStatuses: number[] = []
+  ): Promise<T | undefined> {
+    const baseURL = this.configService.get<string>("SEARCH_URL");
+    if (!baseURL) {
+      throw new SearchError(
+        SearchErrorCode.UNAVAILABLE,
+        "SEARCH_URL is not configured"
+      );
+    }
+
+    const username = this.configService.get<string>("SEARCH_USERNAME");
+    const apiKey = this.configService.get<string>("SEARCH_API_KEY");
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.request<T>({
+          ...config,
+          baseURL,
+          timeout: Number(this.configService.get("SEARCH_TIMEOUT", 10000)),
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `ApiKey ${apiKey}` }),
+            ...config.headers,
+          },
+          ...(username && {
+            auth: {
+              username,
+              password: this.configService.get("SEARCH_PASSWORD", ""),
+            },
+          }),
+        })
+      );
+      return response.data;
+    } catch (error) {
+      const status = error.response?.status;
+      if (allowedStatuses.includes(status)) {
+        return undefined;
+      }
+      throw new SearchError(
+        status && status < 500
+          ? SearchErrorCode.REJECTED
+          : SearchErrorCode.UNAVAILABLE,
+        `Search request ${config.method} ${config.url} failed: ${
+          error.response?.data?.error?.reason ?? error.message
+        }`,
+        error
+      );
+    }
+  }
+}
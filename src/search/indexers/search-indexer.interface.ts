@@ -0,0 +1,48 @@
+/** One searchable passage of a document, stored as a separate search hit. */
+export interface SearchPassage {
+  documentId: string;
+  userId: string;
+  /** Position of the passage within the document, from 0. */
+  passageIndex: number;
+  passageCount: number;
+  text: string;
+  /** Character offsets of the passage in the document text. */
+  start: number;
+  end: number;
+  fileName: string;
+  fileType: string;
+  title?: string;
+  category?: string;
+  tags?: string[];
+  language?: string;
+  keywords?: string[];
+  summary?: string;
+  indexedAt: string;
+}
+
+export interface SearchHit {
+  documentId: string;
+  passageIndex: number;
+  text: string;
+  score: number;
+}
+
+export interface SearchIndexer {
+  /** Selected through `SEARCH_INDEXER`. */
+  readonly name: string;
+  /** Creates the index or brings its mapping up to date. */
+  ensureIndex(): Promise<void>;
+  /**
+   * Replaces every passage of a document. The new passages are written
+   * before stale ones are removed, so a reindexed document stays findable.
+   */
+  replaceDocument(documentId: string, passages: SearchPassage[]): Promise<void>;
+  /**
+   * Removes a document's passages, only those indexed for `userId` when
+   * given, returning how many were deleted.
+   */
+  deleteDocument(documentId: string, userId?: string): Promise<number>;
+  search(query: string, limit: number): Promise<SearchHit[]>;
+  /** Throws when the backend is unreachable; used by the health checks. */
+  ping?(): Promise<void>;
+}
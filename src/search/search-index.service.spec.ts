@@ -0,0 +1,83 @@
+import { ConfigService } from "@nestjs/config";
+import { InMemorySearchIndexer } from "./indexers/in-memory.indexer";
+import { OpenSearchIndexer } from "./indexers/opensearch.indexer";
+import { SearchPassage } from "./indexers/search-indexer.interface";
+import { SearchIndexService } from "./search-index.service";
+import { SearchError } from "./search.errors";
+
+function passages(
+  documentId: string,
+  texts: string[],
+  userId = "user-1"
+): SearchPassage[] {
+  return texts.map((text, passageIndex) => ({
+    documentId,
+    userId,
+    passageIndex,
+    passageCount: texts.length,
+    text,
+    start: 0,
+    end: text.length,
+    fileName: `${documentId}.txt`,
+    fileType: "text/plain",
+    indexedAt: new Date().toISOString(),
+  }));
+}
+
+describe("SearchIndexService", () => {
+  let indexer: InMemorySearchIndexer;
+  let service: SearchIndexService;
+
+  beforeEach(() => {
+    indexer = new InMemorySearchIndexer();
+    service = new SearchIndexService(
+      { name: "opensearch" } as OpenSearchIndexer,
+      indexer,
+      new ConfigService({})
+    );
+  });
+
+  it("uses the in-memory indexer without a search cluster", () => {
+    expect(service.indexer).toBe(indexer);
+  });
+
+  it("ranks passages by how often they contain the query terms", async () => {
+    await service.indexDocument(
+      "doc-1",
+      passages("doc-1", ["invoice total", "invoice invoice due"])
+    );
+    await service.indexDocument("doc-2", passages("doc-2", ["meeting notes"]));
+
+    const hits = await service.search("invoice");
+    expect(hits.map((hit) => [hit.documentId, hit.passageIndex])).toEqual([
+      ["doc-1", 1],
+      ["doc-1", 0],
+    ]);
+  });
+
+  it("replaces every passage of a reindexed document", async () => {
+    await service.indexDocument("doc-1", passages("doc-1", ["old", "older"]));
+    await service.indexDocument("doc-1", passages("doc-1", ["new"]));
+
+    expect(await service.search("old")).toEqual([]);
+    expect(indexer.getPassages("doc-1")).toHaveLength(1);
+  });
+
+  it("only deletes a document for the user it was indexed for", async () => {
+    await service.indexDocument("doc-1", passages("doc-1", ["a", "b"]));
+
+    expect(await service.deleteDocument("doc-1", "user-2")).toBe(0);
+    expect(await service.deleteDocument("doc-1", "user-1")).toBe(2);
+    expect(indexer.getPassages("doc-1")).toEqual([]);
+  });
+
+  it("refuses an indexer that is not registered", () => {
+    const misconfigured = new SearchIndexService(
+      { name: "opensearch" } as OpenSearchIndexer,
+      indexer,
+      new ConfigService({ SEARCH_INDEXER: "solr" })
+    );
+
+    expect(() => misconfigured.indexer).toThrow(SearchError);
+  });
+});
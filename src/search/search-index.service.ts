@@ -0,0 +1,90 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  SearchHit,
+  SearchIndexer,
+  SearchPassage,
+} from "./indexers/search-indexer.interface";
+import { OpenSearchIndexer } from "./indexers/opensearch.indexer";
+import { InMemorySearchIndexer } from "./indexers/in-memory.indexer";
+import { SearchError, SearchErrorCode } from "./search.errors";
+
+/**
+ * Front for the configured `SearchIndexer`: `SEARCH_INDEXER` picks one by
+ * name, defaulting to OpenSearch when `SEARCH_URL` is set and to the
+ * in-memory indexer otherwise.
+ */
+@Injectable()
+export class SearchIndexService implements OnModuleInit {
+  private readonly logger = new Logger(SearchIndexService.name);
+  private readonly indexers = new Map<string, SearchIndexer>();
+  private indexReady?: Promise<void>;
+
+  constructor(
+    openSearchIndexer: OpenSearchIndexer,
+    inMemoryIndexer: InMemorySearchIndexer,
+    private readonly configService: ConfigService
+  ) {
+    [openSearchIndexer, inMemoryIndexer].forEach((indexer) =>
+      this.register(indexer)
+    );
+  }
+
+  onModuleInit() {
+    // Not awaited: a search cluster that is down must not block startup
+    this.ensureIndex().catch((error) =>
+      this.logger.warn(`Search index not ready: ${error.message}`)
+    );
+  }
+
+  register(indexer: SearchIndexer): void {
+    this.indexers.set(indexer.name, indexer);
+  }
+
+  get indexer(): SearchIndexer {
+    const name = this.configService.get(
+      "SEARCH_INDEXER",
+      this.configService.get("SEARCH_URL") ? "opensearch" : "memory"
+    );
+    const indexer = this.indexers.get(name);
+
+    if (!indexer) {
+      throw new SearchError(
+        SearchErrorCode.UNKNOWN_INDEXER,
+        `No search indexer registered as "${name}"`
+      );
+    }
+    return indexer;
+  }
+
+  /** Replaces everything indexed for the document with `passages`. */
+  async indexDocument(
+    documentId: string,
+    passages: SearchPassage[]
+  ): Promise<void> {
+    await this.ensureIndex();
+    await this.indexer.replaceDocument(documentId, passages);
+  }
+
+  async deleteDocument(documentId: string, userId?: string): Promise<number> {
+    return this.indexer.deleteDocument(documentId, userId);
+  }
+
+  async search(query: string, limit = 10): Promise<SearchHit[]> {
+    return this.indexer.search(query, limit);
+  }
+
+  /** Checks the configured indexer is reachable; indexers without a `ping` always are. */
+  async ping(): Promise<void> {
+    await this.indexer.ping?.();
+  }
+
+  private ensureIndex(): Promise<void> {
+    if (!this.indexReady) {
+      this.indexReady = this.indexer.ensureIndex();
+      // Try again on the next call rather than caching the failure
+      this.indexReady.catch(() => (this.indexReady = undefined));
+    }
+    return this.indexReady;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Bumped whenever `SEARCH_INDEX_MAPPING` changes; indexes with an older
+ * version get the new properties added on startup. Changing the type of an
+ * existing field needs a new index instead.
+ */
+export const SEARCH_MAPPING_VERSION = 1;
+
+export const SEARCH_INDEX_MAPPING = {
+  _meta: { version: SEARCH_MAPPING_VERSION },
+  dynamic: "strict",
+  properties: {
+    documentId: { type: "keyword" },
+    userId: { type: "keyword" },
+    passageIndex: { type: "integer" },
+    passageCount: { type: "integer" },
+    text: { type: "text" },
+    start: { type: "integer" },
+    end: { type: "integer" },
+    fileName: {
+      type: "text",
+      fields: { raw: { type: "keyword", ignore_above: 512 } },
+    },
+    fileType: { type: "keyword" },
+    title: { type: "text" },
+    category: { type: "keyword" },
+    tags: { type: "keyword" },
+    language: { type: "keyword" },
+    keywords: { type: "keyword" },
+    summary: { type: "text", index: false },
+    indexedAt: { type: "date" },
+  },
+};
@@ -0,0 +1,16 @@
+export enum SearchErrorCode {
+  UNAVAILABLE = "SEARCH_UNAVAILABLE",
+  REJECTED = "SEARCH_REJECTED",
+  UNKNOWN_INDEXER = "SEARCH_UNKNOWN_INDEXER",
+}
+
+export class SearchError extends Error {
+  constructor(
+    public readonly code: SearchErrorCode,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = SearchError.name;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { HttpModule } from "@nestjs/axios";
+import { ConfigModule } from "@nestjs/config";
+import { SearchIndexService } from "./search-index.service";
+import { OpenSearchIndexer } from "./indexers/opensearch.indexer";
+import { InMemorySearchIndexer } from "./indexers/in-memory.indexer";
+
+@Module({
+  imports: [HttpModule, ConfigModule],
+  providers: [SearchIndexService, OpenSearchIndexer, InMemorySearchIndexer],
+  exports: [SearchIndexService],
+})
+export class SearchModule {}
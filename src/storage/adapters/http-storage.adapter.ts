@@ -0,0 +1,71 @@
+import { Injectable } from "@nestjs/common";
+import { HttpService } from "@nestjs/axios";
+import { ConfigService } from "@nestjs/config";
+import { firstValueFrom } from "rxjs";
+import { Readable } from "stream";
+import { StorageAdapter } from "./storage-adapter.interface";
+import { StorageError, StorageErrorCode } from "../storage.errors";
+import { isAllowed, parseAllowlist } from "../allowlist";
+
+/**
+ * Downloads `http(s)://` paths from the hosts in
+ * `STORAGE_HTTP_ALLOWED_HOSTS` only, redirects included, so a storage path
+ * cannot make the service fetch internal URLs. Without an allowlist every
+ * http path is refused.
+ */
+@Injectable()
+export class HttpStorageAdapter implements StorageAdapter {
+  readonly schemes = ["http", "https"];
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async createReadStream(location: URL): Promise<Readable> {
+    const allowedHosts = parseAllowlist(
+      this.configService.get("STORAGE_HTTP_ALLOWED_HOSTS")
+    );
+    this.checkHost(location.hostname, allowedHosts, location.href);
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get<Readable>(location.href, {
+          responseType: "stream",
+          timeout: Number(
+            this.configService.get("STORAGE_HTTP_TIMEOUT", 30000)
+          ),
+          beforeRedirect: (options) =>
+            this.checkHost(options.hostname, allowedHosts, options.href),
+        })
+      );
+      return response.data;
+    } catch (error) {
+      // A refused redirect comes back wrapped by follow-redirects and axios
+      for (let cause = error; cause; cause = cause.cause) {
+        if (cause instanceof StorageError) {
+          throw cause;
+        }
+      }
+      const status = error.response?.status;
+      throw new StorageError(
+        status === 404
+          ? StorageErrorCode.NOT_FOUND
+          : status === 401 || status === 403
+            ? StorageErrorCode.ACCESS_DENIED
+            : StorageErrorCode.UNAVAILABLE,
+        `Unable to download ${location.href}: ${error.message}`,
+        error
+      );
+    }
+  }
+
+  private checkHost(host: string, allowedHosts: string[], url: string): void {
+    if (!isAllowed(host, allowedHosts)) {
+      throw new StorageError(
+        StorageErrorCode.ACCESS_DENIED,
+        `${url} is not on an allowed host (STORAGE_HTTP_ALLOWED_HOSTS)`
+      );
+    }
+  }
+}
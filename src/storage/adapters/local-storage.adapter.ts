@@ -0,0 +1,74 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createReadStream } from "fs";
+import { realpath } from "fs/promises";
+import { isAbsolute, relative, resolve, sep } from "path";
+import { Readable } from "stream";
+import { fileURLToPath } from "url";
+import { StorageAdapter } from "./storage-adapter.interface";
+import { StorageError, StorageErrorCode } from "../storage.errors";
+
+/**
+ * Reads local files below `STORAGE_LOCAL_ROOT`. Paths that end up outside
+ * the root once `..` segments and symlinks are resolved are refused, so a
+ * caller-supplied storage path cannot read arbitrary files on the host.
+ */
+@Injectable()
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly schemes = ["file"];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /** Directory bare relative storage paths are resolved against. */
+  get root(): string {
+    return resolve(this.configService.get("STORAGE_LOCAL_ROOT", process.cwd()));
+  }
+
+  async createReadStream(location: URL): Promise<Readable> {
+    const path = await this.confine(fileURLToPath(location));
+    const stream = createReadStream(path);
+
+    // Surface missing files before the stream is handed to a consumer
+    await new Promise<void>((resolve, reject) => {
+      stream.once("open", () => resolve());
+      stream.once("error", (error: NodeJS.ErrnoException) =>
+        reject(toStorageError(path, error))
+      );
+    });
+
+    return stream;
+  }
+
+  /** The real path of `path`, which must lie inside the root. */
+  private async confine(path: string): Promise<string> {
+    const root = await realpath(this.root).catch(() => this.root);
+    const target = await realpath(path).catch((error) => {
+      throw toStorageError(path, error);
+    });
+
+    const fromRoot = relative(root, target);
+    if (
+      fromRoot === ".." ||
+      fromRoot.startsWith(`..${sep}`) ||
+      isAbsolute(fromRoot)
+    ) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_PATH,
+        `${path} is outside STORAGE_LOCAL_ROOT`
+      );
+    }
+    return target;
+  }
+}
+
+function toStorageError(path: string, error: NodeJS.ErrnoException) {
+  return new StorageError(
+    error.code === "ENOENT"
+      ? StorageErrorCode.NOT_FOUND
+      : error.code === "EACCES"
+        ? StorageErrorCode.ACCESS_DENIED
+        : StorageErrorCode.UNAVAILABLE,
+    `Unable to read ${path}: ${error.message}`,
+    error
+  );
+}
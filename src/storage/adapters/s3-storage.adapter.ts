@@ -0,0 +1,98 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+import { StorageAdapter } from "./storage-adapter.interface";
+import { StorageError, StorageErrorCode } from "../storage.errors";
+import { isAllowed, parseAllowlist } from "../allowlist";
+
+/**
+ * Reads `s3://bucket/key` paths from the buckets in
+ * `STORAGE_S3_ALLOWED_BUCKETS`; without an allowlist every s3 path is
+ * refused. Setting `S3_ENDPOINT` points the client at any S3-compatible
+ * server (MinIO, LocalStack, ...) using path-style URLs.
+ */
+@Injectable()
+export class S3StorageAdapter implements StorageAdapter {
+  readonly schemes = ["s3"];
+  private client?: S3Client;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async createReadStream(location: URL): Promise<Readable> {
+    const bucket = location.hostname;
+    let key: string;
+    try {
+      key = decodeURIComponent(location.pathname.replace(/^\//, ""));
+    } catch (error) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_PATH,
+        `Invalid S3 key in ${location.href}`,
+        error
+      );
+    }
+
+    if (!bucket || !key) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_PATH,
+        `S3 path must look like s3://bucket/key, got ${location.href}`
+      );
+    }
+
+    const allowedBuckets = parseAllowlist(
+      this.configService.get("STORAGE_S3_ALLOWED_BUCKETS")
+    );
+    if (!isAllowed(bucket, allowedBuckets)) {
+      throw new StorageError(
+        StorageErrorCode.ACCESS_DENIED,
+        `Bucket ${bucket} is not allowed (STORAGE_S3_ALLOWED_BUCKETS)`
+      );
+    }
+
+    try {
+      const response = await this.getClient().send(
+        new GetObjectCommand({ Bucket: bucket, Key: key })
+      );
+      return response.Body as Readable;
+    } catch (error) {
+      const status = error.$metadata?.httpStatusCode;
+      throw new StorageError(
+        error.name === "NoSuchKey" ||
+        error.name === "NoSuchBucket" ||
+        status === 404
+          ? StorageErrorCode.NOT_FOUND
+          : status === 403
+            ? StorageErrorCode.ACCESS_DENIED
+            : StorageErrorCode.UNAVAILABLE,
+        `Unable to read ${location.href}: ${error.message}`,
+        error
+      );
+    }
+  }
+
+  private getClient(): S3Client {
+    if (!this.client) {
+      const endpoint = this.configService.get<string>("S3_ENDPOINT");
+      const accessKeyId = this.configService.get<string>("S3_ACCESS_KEY_ID");
+      const secretAccessKey = this.configService.get<string>(
+        "S3_SECRET_ACCESS_KEY"
+      );
+
+      this.client = new S3Client({
+        region: this.configService.get("S3_REGION", "us-east-1"),
+        endpoint: endpoint || undefined,
+        forcePathStyle:
+          this.configService.get(
+            "S3_FORCE_PATH_STYLE",
+            endpoint ? "true" : "false"
+          ) === "true",
+        credentials:
+          accessKeyId && secretAccessKey
+            ? { accessKeyId, secretAccessKey }
+            : undefined,
+      });
+    }
+
+    return this.client;
+  }
+}
@@ -0,0 +1,7 @@
+import { Readable } from "stream";
+
+export interface StorageAdapter {
+  /** URL schemes (without the trailing colon) served by this adapter. */
+  readonly schemes: string[];
+  createReadStream(location: URL): Promise<Readable>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Parses a comma-separated allowlist such as `STORAGE_HTTP_ALLOWED_HOSTS`.
+ * Entries are compared case-insensitively; `*.example.com` matches any
+ * subdomain of example.com but not example.com itself.
+ */
+export function parseAllowlist(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Whether `value` matches an entry of `allowlist`. An empty list allows nothing. */
+export function isAllowed(value: string, allowlist: string[]): boolean {
+  const candidate = value.toLowerCase();
+  return allowlist.some((entry) =>
+    entry.startsWith("*.")
+      ? candidate.endsWith(entry.slice(1))
+      : candidate === entry
+  );
+}
@@ -0,0 +1,18 @@
+export enum StorageErrorCode {
+  UNSUPPORTED_SCHEME = "STORAGE_UNSUPPORTED_SCHEME",
+  INVALID_PATH = "STORAGE_INVALID_PATH",
+  NOT_FOUND = "STORAGE_NOT_FOUND",
+  ACCESS_DENIED = "STORAGE_ACCESS_DENIED",
+  UNAVAILABLE = "STORAGE_UNAVAILABLE",
+}
+
+export class StorageError extends Error {
+  constructor(
+    public readonly code: StorageErrorCode,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = StorageError.name;
+  }
+}
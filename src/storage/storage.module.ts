@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { HttpModule } from "@nestjs/axios";
+import { ConfigModule } from "@nestjs/config";
+import { StorageService } from "./storage.service";
+import { LocalStorageAdapter } from "./adapters/local-storage.adapter";
+import { S3StorageAdapter } from "./adapters/s3-storage.adapter";
+import { HttpStorageAdapter } from "./adapters/http-storage.adapter";
+
+@Module({
+  imports: [HttpModule, ConfigModule],
+  providers: [
+    StorageService,
+    LocalStorageAdapter,
+    S3StorageAdapter,
+    HttpStorageAdapter,
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,106 @@
+import { Injectable } from "@nestjs/common";
+import { resolve } from "path";
+import { Readable } from "stream";
+import { pathToFileURL } from "url";
+import { StorageAdapter } from "./adapters/storage-adapter.interface";
+import { LocalStorageAdapter } from "./adapters/local-storage.adapter";
+import { S3StorageAdapter } from "./adapters/s3-storage.adapter";
+import { HttpStorageAdapter } from "./adapters/http-storage.adapter";
+import { StorageError, StorageErrorCode } from "./storage.errors";
+
+/**
+ * Resolves `DocumentProcessingJob.storagePath` values to readable streams.
+ *
+ * Paths carrying a scheme (`file://`, `s3://`, `http(s)://`) are routed to
+ * the adapter registered for it; bare paths are treated as local files,
+ * relative ones resolved against `STORAGE_LOCAL_ROOT`. Local files must lie
+ * inside that root, and http and s3 paths must point at an allowlisted host
+ * or bucket (`STORAGE_HTTP_ALLOWED_HOSTS`, `STORAGE_S3_ALLOWED_BUCKETS`).
+ */
+@Injectable()
+export class StorageService {
+  private readonly adapters = new Map<string, StorageAdapter>();
+
+  constructor(
+    private readonly localAdapter: LocalStorageAdapter,
+    s3Adapter: S3StorageAdapter,
+    httpAdapter: HttpStorageAdapter
+  ) {
+    [localAdapter, s3Adapter, httpAdapter].forEach((adapter) =>
+      this.register(adapter)
+    );
+  }
+
+  register(adapter: StorageAdapter): void {
+    for (const scheme of adapter.schemes) {
+      this.adapters.set(scheme.toLowerCase(), adapter);
+    }
+  }
+
+  resolve(storagePath: string): URL {
+    if (!storagePath) {
+      throw new StorageError(
+        StorageErrorCode.INVALID_PATH,
+        "Storage path is empty"
+      );
+    }
+
+    // A single letter before the colon is a Windows drive, not a scheme
+    if (/^[a-z][a-z0-9+.-]+:/i.test(storagePath)) {
+      try {
+        return new URL(storagePath);
+      } catch (error) {
+        throw new StorageError(
+          StorageErrorCode.INVALID_PATH,
+          `Invalid storage path ${storagePath}`,
+          error
+        );
+      }
+    }
+
+    // The local adapter refuses whatever ends up outside the root
+    return pathToFileURL(resolve(this.localAdapter.root, storagePath));
+  }
+
+  async createReadStream(storagePath: string): Promise<Readable> {
+    const location = this.resolve(storagePath);
+    const adapter = this.adapters.get(location.protocol.slice(0, -1));
+
+    if (!adapter) {
+      throw new StorageError(
+        StorageErrorCode.UNSUPPORTED_SCHEME,
+        `No storage adapter registered for ${location.protocol}// paths`
+      );
+    }
+
+    return adapter.createReadStream(location);
+  }
+
+  /**
+   * Opens `storagePath` and closes it again without reading, to check its
+   * backend is reachable. Defaults to `STORAGE_LOCAL_ROOT`.
+   */
+  async probe(storagePath: string = this.localAdapter.root): Promise<void> {
+    const stream = await this.createReadStream(storagePath);
+    stream.destroy();
+  }
+
+  async readFile(storagePath: string): Promise<Buffer> {
+    const stream = await this.createReadStream(storagePath);
+    const chunks: Buffer[] = [];
+
+    try {
+      for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+    } catch (error) {
+      throw new StorageError(
+        StorageErrorCode.UNAVAILABLE,
+        `Failed while reading ${storagePath}: ${error.message}`,
+        error
+      );
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
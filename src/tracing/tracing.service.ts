@@ -0,0 +1,13 @@
+import { Injectable, OnApplicationShutdown } from "@nestjs/common";
+import { shutdownTracing } from "./tracing";
+
+/**
+ * Exports the spans still buffered when the app shuts down, after the
+ * last callback flush.
+ */
+@Injectable()
+export class TracingService implements OnApplicationShutdown {
+  async onApplicationShutdown() {
+    await shutdownTracing();
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  Context,
+  Span,
+  SpanOptions,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+} from "@opentelemetry/api";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+} from "@opentelemetry/semantic-conventions";
+
+const SERVICE_NAME = "jktech-processing-service";
+
+/** W3C trace context (`traceparent`, `tracestate`) carried in job data. */
+export type TraceCarrier = Record<string, string>;
+
+let provider: NodeTracerProvider | undefined;
+let memoryExporter: InMemorySpanExporter | undefined;
+
+/**
+ * Registers the tracer provider picked by `OTEL_TRACES_EXPORTER`:
+ * `otlp` sends spans to `OTEL_EXPORTER_OTLP_ENDPOINT`, `console` prints
+ * them and `memory` keeps them for `getFinishedSpans`. With `none`, the
+ * default, spans are no-ops. Runs before the Nest app is created.
+ */
+export function startTracing(): void {
+  const exporter = process.env.OTEL_TRACES_EXPORTER || "none";
+  if (provider || exporter === "none") {
+    return;
+  }
+
+  let spanProcessor: SpanProcessor;
+  switch (exporter) {
+    case "otlp":
+      spanProcessor = new BatchSpanProcessor(new OTLPTraceExporter());
+      break;
+    case "console":
+      spanProcessor = new SimpleSpanProcessor(new ConsoleSpanExporter());
+      break;
+    case "memory":
+      memoryExporter = new InMemorySpanExporter();
+      spanProcessor = new SimpleSpanProcessor(memoryExporter);
+      break;
+    default:
+      throw new Error(
+        `Unknown OTEL_TRACES_EXPORTER "${exporter}"; use otlp, console, memory or none`
+      );
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || SERVICE_NAME,
+      [ATTR_SERVICE_VERSION]: process.env.npm_package_version || "1.0.0",
+    }),
+    spanProcessors: [spanProcessor],
+  });
+  // AsyncLocalStorage context manager and W3C trace context propagator
+  provider.register();
+}
+
+/** Exports the spans still buffered. */
+export async function shutdownTracing(): Promise<void> {
+  await provider?.shutdown();
+  provider = undefined;
+}
+
+/** Spans finished so far, with `OTEL_TRACES_EXPORTER=memory`. */
+export function getFinishedSpans(): ReadableSpan[] {
+  return memoryExporter?.getFinishedSpans() ?? [];
+}
+
+/** Clears the spans kept with `OTEL_TRACES_EXPORTER=memory`. */
+export function resetFinishedSpans(): void {
+  memoryExporter?.reset();
+}
+
+/**
+ * Trace context of the active span, to store with a queue job or send
+ * along with a request. Empty while tracing is off.
+ */
+export function injectTraceContext(): TraceCarrier {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return carrier;
+}
+
+/** Context to parent spans on; the active one when `carrier` is empty. */
+export function extractTraceContext(carrier?: TraceCarrier): Context {
+  return carrier
+    ? propagation.extract(context.active(), carrier)
+    : context.active();
+}
+
+/**
+ * Runs `run` in a new span, made active so spans started inside become its
+ * children. A thrown error is recorded on the span and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  run: (span: Span) => Promise<T>,
+  parent: Context = context.active()
+): Promise<T> {
+  const span = trace.getTracer(SERVICE_NAME).startSpan(name, options, parent);
+  try {
+    return await context.with(trace.setSpan(parent, span), () => run(span));
+  } catch (error) {
+    span.recordException(error);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+    throw error;
+  } finally {
+    span.end();
+  }
+}